@@ -0,0 +1,146 @@
+import { DisposableLike, PositionLike, TextModelLike, UriLike } from './monacoEnv';
+import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CancellationToken,
+  DefinitionLocation,
+  DocumentSymbolKind
+} from './types';
+import { CompanionProvider } from './CompanionProvider';
+import { SYMBOL_KIND } from './DocumentSymbolProvider';
+
+/** Shape of the call hierarchy contribution's `CallHierarchyItem`. */
+interface MonacoCallHierarchyItem {
+  name: string;
+  detail?: string;
+  kind: number;
+  tags: number[];
+  uri: UriLike;
+  range: DefinitionLocation['range'];
+  selectionRange: DefinitionLocation['range'];
+  /** Not part of Monaco's item; Monaco hands items back to their provider unchanged. */
+  languageId?: string;
+}
+
+/**
+ * Call hierarchy ("Show Call Hierarchy", incoming and outgoing calls) backed by
+ * the analyzers and workspace of a {@link DefinitionProvider}: outgoing calls
+ * are the calls a function's body makes, each callee resolved like
+ * go-to-definition; incoming calls are the calls across the workspace that
+ * resolve back to it.
+ *
+ * monaco-editor does not publish the call hierarchy contribution, so
+ * {@link register} only takes effect where `languages.registerCallHierarchyProvider`
+ * exists. {@link getCallHierarchyItems}, {@link getIncomingCalls} and
+ * {@link getOutgoingCalls} serve the same results to a host-built view.
+ *
+ * @example
+ * ```typescript
+ * const calls = new CallHierarchyProvider(monaco, definitions);
+ * const [root] = await calls.getCallHierarchyItems(model, editor.getPosition());
+ * const callers = root ? await calls.getIncomingCalls(root) : [];
+ * ```
+ */
+export class CallHierarchyProvider extends CompanionProvider {
+  /**
+   * Register this provider with Monaco for a language, if this Monaco build
+   * has a call hierarchy contribution.
+   * @returns A disposable that unregisters just this registration, or null
+   *   when Monaco cannot show call hierarchies.
+   */
+  register(languageId: string): DisposableLike | null {
+    const disposable = this.monaco.languages.registerCallHierarchyProvider?.(languageId, this);
+    return disposable ? this.track(disposable) : null;
+  }
+
+  /** The functions, methods or classes the symbol at `position` resolves to. */
+  async getCallHierarchyItems(model: TextModelLike, position: PositionLike): Promise<CallHierarchyItem[]> {
+    const languageId = model.getLanguageId();
+    const analyzer = this.definitions.getAnalyzer(languageId);
+    if (!analyzer?.prepareCallHierarchy) return [];
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const items = await analyzer.prepareCallHierarchy(doc, position, this.definitions.getWorkspace());
+    return (items ?? []).map(item => ({ ...item, languageId }));
+  }
+
+  /** Calls to `item`, grouped by the definition making them. */
+  async getIncomingCalls(item: CallHierarchyItem): Promise<CallHierarchyIncomingCall[]> {
+    const languageId = this.languageOf(item);
+    const analyzer = languageId ? this.definitions.getAnalyzer(languageId) : undefined;
+    if (!analyzer?.provideIncomingCalls) return [];
+    const calls = await analyzer.provideIncomingCalls(item, this.definitions.getWorkspace());
+    return (calls ?? []).map(call => ({ ...call, from: { ...call.from, languageId } }));
+  }
+
+  /** Calls made by `item`, grouped by callee. */
+  async getOutgoingCalls(item: CallHierarchyItem): Promise<CallHierarchyOutgoingCall[]> {
+    const languageId = this.languageOf(item);
+    const analyzer = languageId ? this.definitions.getAnalyzer(languageId) : undefined;
+    if (!analyzer?.provideOutgoingCalls) return [];
+    const calls = await analyzer.provideOutgoingCalls(item, this.definitions.getWorkspace());
+    return (calls ?? []).map(call => ({ ...call, to: { ...call.to, languageId } }));
+  }
+
+  /** Monaco CallHierarchyProvider implementation. */
+  async prepareCallHierarchy(
+    model: TextModelLike,
+    position: PositionLike,
+    token?: CancellationToken
+  ): Promise<{ roots: MonacoCallHierarchyItem[]; dispose(): void } | null> {
+    const items = await this.getCallHierarchyItems(model, position);
+    if (items.length === 0 || token?.isCancellationRequested) return null;
+    return { roots: items.map(item => this.toMonacoItem(item)), dispose: () => {} };
+  }
+
+  /** Monaco CallHierarchyProvider implementation. */
+  async provideIncomingCalls(
+    item: MonacoCallHierarchyItem,
+    token?: CancellationToken
+  ): Promise<Array<{ from: MonacoCallHierarchyItem; fromRanges: DefinitionLocation['range'][] }> | null> {
+    const calls = await this.getIncomingCalls(fromMonacoItem(item));
+    if (token?.isCancellationRequested) return null;
+    return calls.map(call => ({ from: this.toMonacoItem(call.from), fromRanges: call.fromRanges }));
+  }
+
+  /** Monaco CallHierarchyProvider implementation. */
+  async provideOutgoingCalls(
+    item: MonacoCallHierarchyItem,
+    token?: CancellationToken
+  ): Promise<Array<{ to: MonacoCallHierarchyItem; fromRanges: DefinitionLocation['range'][] }> | null> {
+    const calls = await this.getOutgoingCalls(fromMonacoItem(item));
+    if (token?.isCancellationRequested) return null;
+    return calls.map(call => ({ to: this.toMonacoItem(call.to), fromRanges: call.fromRanges }));
+  }
+
+  /** The language stamped on `item`, else that of its model (for items built by the host). */
+  private languageOf(item: CallHierarchyItem): string | undefined {
+    return item.languageId ?? this.monaco.editor.getModel(this.monaco.Uri.parse(item.uri))?.getLanguageId();
+  }
+
+  private toMonacoItem(item: CallHierarchyItem): MonacoCallHierarchyItem {
+    return {
+      name: item.name,
+      detail: item.detail,
+      kind: SYMBOL_KIND[item.kind],
+      tags: [],
+      uri: this.monaco.Uri.parse(item.uri),
+      range: item.range,
+      selectionRange: item.selectionRange,
+      languageId: item.languageId
+    };
+  }
+}
+
+function fromMonacoItem(item: MonacoCallHierarchyItem): CallHierarchyItem {
+  const kind = (Object.keys(SYMBOL_KIND) as DocumentSymbolKind[]).find(key => SYMBOL_KIND[key] === item.kind);
+  return {
+    name: item.name,
+    kind: kind ?? 'function',
+    detail: item.detail,
+    uri: item.uri.toString(),
+    range: item.range,
+    selectionRange: item.selectionRange,
+    languageId: item.languageId
+  };
+}
@@ -0,0 +1,39 @@
+import { DisposableLike, MonacoLike } from './monacoEnv';
+import { DefinitionProvider } from './DefinitionProvider';
+
+/**
+ * Base of the providers that sit beside a {@link DefinitionProvider} and reuse
+ * its analyzers and workspace: holds the host's `monaco` namespace and the
+ * Monaco registrations to undo on {@link dispose}.
+ */
+export abstract class CompanionProvider {
+  private readonly disposables: DisposableLike[] = [];
+
+  constructor(
+    protected readonly monaco: MonacoLike,
+    protected readonly definitions: DefinitionProvider
+  ) {}
+
+  /**
+   * Keep `registrations` — the parts of one registration — until
+   * {@link dispose}.
+   * @returns A disposable that undoes just these registrations.
+   */
+  protected track(...registrations: DisposableLike[]): DisposableLike {
+    this.disposables.push(...registrations);
+    if (registrations.length === 1) return registrations[0];
+    return {
+      dispose: () => {
+        for (const registration of registrations) registration.dispose();
+      }
+    };
+  }
+
+  /** Unregister from Monaco. The analyzers stay owned by the DefinitionProvider. */
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
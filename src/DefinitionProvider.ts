@@ -2,6 +2,7 @@ import { DisposableLike, MonacoLike, PositionLike, TextModelLike } from './monac
 import {
   DefinitionLocation,
   DefinitionProviderOptions,
+  DefinitionRegistrationOptions,
   LanguageAnalyzer
 } from './types';
 import { PythonAnalyzer } from './analyzers/python/PythonAnalyzer';
@@ -52,20 +53,35 @@ export class DefinitionProvider {
     this.workspace = new WorkspaceIndex(monaco, {
       loadFile: options.loadFile,
       resolveModuleUri: options.resolveModuleUri,
-      defaultLanguageId: 'python'
+      defaultLanguageId: 'python',
+      pythonSearchPaths: options.python?.searchPaths,
+      pythonStdlibStubs: options.python?.stdlibStubs,
+      notebooks: options.notebooks
     });
     this.tsStrategy = new TsWorkerStrategy(monaco, options);
     this.analyzers.set('python', new PythonAnalyzer(options.python));
   }
 
   /**
-   * Register this provider with Monaco for a language.
+   * Register this provider with Monaco for a language, and with
+   * `{ typeDefinition: true }` / `{ implementation: true }` as its
+   * TypeDefinitionProvider / ImplementationProvider too.
    * @returns A disposable that unregisters just this registration.
    */
-  register(languageId: string): DisposableLike {
-    const disposable = this.monaco.languages.registerDefinitionProvider(languageId, this);
-    this.disposables.push(disposable);
-    return disposable;
+  register(languageId: string, options: DefinitionRegistrationOptions = {}): DisposableLike {
+    const registrations = [this.monaco.languages.registerDefinitionProvider(languageId, this)];
+    if (options.typeDefinition) {
+      registrations.push(this.monaco.languages.registerTypeDefinitionProvider(languageId, this));
+    }
+    if (options.implementation) {
+      registrations.push(this.monaco.languages.registerImplementationProvider(languageId, this));
+    }
+    this.disposables.push(...registrations);
+    return {
+      dispose: () => {
+        for (const registration of registrations) registration.dispose();
+      }
+    };
   }
 
   /** Add or replace the analyzer used for a language. */
@@ -73,6 +89,16 @@ export class DefinitionProvider {
     this.analyzers.set(languageId, analyzer);
   }
 
+  /** The analyzer used for a language — shared with companion providers (references, …). */
+  getAnalyzer(languageId: string): LanguageAnalyzer | undefined {
+    return this.analyzers.get(languageId);
+  }
+
+  /** The workspace tracker resolution runs against, shared with companion providers. */
+  getWorkspace(): WorkspaceIndex {
+    return this.workspace;
+  }
+
   /** Monaco DefinitionProvider implementation. */
   async provideDefinition(
     model: TextModelLike,
@@ -114,6 +140,50 @@ export class DefinitionProvider {
     }));
   }
 
+  /**
+   * Monaco TypeDefinitionProvider implementation, active for languages
+   * registered with `{ typeDefinition: true }` whose analyzer supports it.
+   */
+  async provideTypeDefinition(
+    model: TextModelLike,
+    position: PositionLike,
+    token?: CancellationTokenLike
+  ): Promise<Array<{ uri: unknown; range: DefinitionLocation['range'] }> | null> {
+    const analyzer = this.analyzers.get(model.getLanguageId());
+    if (!analyzer?.provideTypeDefinition) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const locations = await analyzer.provideTypeDefinition(doc, position, this.workspace);
+    return token?.isCancellationRequested ? null : this.toMonacoLocations(locations);
+  }
+
+  /**
+   * Monaco ImplementationProvider implementation, active for languages
+   * registered with `{ implementation: true }` whose analyzer supports it.
+   */
+  async provideImplementation(
+    model: TextModelLike,
+    position: PositionLike,
+    token?: CancellationTokenLike
+  ): Promise<Array<{ uri: unknown; range: DefinitionLocation['range'] }> | null> {
+    const analyzer = this.analyzers.get(model.getLanguageId());
+    if (!analyzer?.provideImplementation) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const locations = await analyzer.provideImplementation(doc, position, this.workspace);
+    return token?.isCancellationRequested ? null : this.toMonacoLocations(locations);
+  }
+
+  private toMonacoLocations(
+    locations: DefinitionLocation[] | null
+  ): Array<{ uri: unknown; range: DefinitionLocation['range'] }> | null {
+    if (!locations || locations.length === 0) return null;
+    return locations.map(location => ({
+      uri: this.monaco.Uri.parse(location.uri),
+      range: location.range
+    }));
+  }
+
   /** Dispose all registrations, the workspace tracker, and analyzers. */
   dispose(): void {
     for (const disposable of this.disposables) {
@@ -0,0 +1,75 @@
+import { DisposableLike, TextModelLike } from './monacoEnv';
+import { CancellationToken, DefinitionLocation, DocumentSymbol, DocumentSymbolKind } from './types';
+import { CompanionProvider } from './CompanionProvider';
+
+/** Shape of monaco's `languages.DocumentSymbol`. */
+interface MonacoDocumentSymbol {
+  name: string;
+  detail: string;
+  kind: number;
+  tags: number[];
+  range: DefinitionLocation['range'];
+  selectionRange: DefinitionLocation['range'];
+  children: MonacoDocumentSymbol[];
+}
+
+/** Values of monaco's `languages.SymbolKind` enum. */
+export const SYMBOL_KIND: Record<DocumentSymbolKind, number> = {
+  module: 1,
+  class: 4,
+  method: 5,
+  property: 6,
+  field: 7,
+  constructor: 8,
+  enum: 9,
+  function: 11,
+  variable: 12,
+  constant: 13,
+  enumMember: 21
+};
+
+/**
+ * Document outline for Monaco Editor — powers the outline view, breadcrumbs
+ * and "Go to Symbol in Editor". Backed by the analyzers of a
+ * {@link DefinitionProvider}, whose cached trees it reads.
+ *
+ * @example
+ * ```typescript
+ * new DocumentSymbolProvider(monaco, definitions).register('python');
+ * ```
+ */
+export class DocumentSymbolProvider extends CompanionProvider {
+  /**
+   * Register this provider with Monaco for a language.
+   * @returns A disposable that unregisters just this registration.
+   */
+  register(languageId: string): DisposableLike {
+    return this.track(this.monaco.languages.registerDocumentSymbolProvider(languageId, this));
+  }
+
+  /** Monaco DocumentSymbolProvider implementation. */
+  async provideDocumentSymbols(
+    model: TextModelLike,
+    token?: CancellationToken
+  ): Promise<MonacoDocumentSymbol[] | null> {
+    const analyzer = this.definitions.getAnalyzer(model.getLanguageId());
+    if (!analyzer?.provideDocumentSymbols) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const symbols = await analyzer.provideDocumentSymbols(doc, this.definitions.getWorkspace());
+    if (!symbols || token?.isCancellationRequested) return null;
+    return symbols.map(toMonacoSymbol);
+  }
+}
+
+function toMonacoSymbol(symbol: DocumentSymbol): MonacoDocumentSymbol {
+  return {
+    name: symbol.name,
+    detail: '',
+    kind: SYMBOL_KIND[symbol.kind],
+    tags: [],
+    range: symbol.range,
+    selectionRange: symbol.selectionRange,
+    children: symbol.children.map(toMonacoSymbol)
+  };
+}
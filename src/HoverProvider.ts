@@ -0,0 +1,39 @@
+import { DisposableLike, PositionLike, TextModelLike } from './monacoEnv';
+import { CancellationToken, DefinitionLocation } from './types';
+import { CompanionProvider } from './CompanionProvider';
+
+/**
+ * Hovers for Monaco Editor showing what go-to-definition would land on: the
+ * definition's signature, its docstring as Markdown, and its module. Backed by
+ * the analyzers and workspace of a {@link DefinitionProvider}, so definitions
+ * in lazily loaded files are described too.
+ *
+ * @example
+ * ```typescript
+ * new HoverProvider(monaco, definitions).register('python');
+ * ```
+ */
+export class HoverProvider extends CompanionProvider {
+  /**
+   * Register this provider with Monaco for a language.
+   * @returns A disposable that unregisters just this registration.
+   */
+  register(languageId: string): DisposableLike {
+    return this.track(this.monaco.languages.registerHoverProvider(languageId, this));
+  }
+
+  /** Monaco HoverProvider implementation. */
+  async provideHover(
+    model: TextModelLike,
+    position: PositionLike,
+    token?: CancellationToken
+  ): Promise<{ range: DefinitionLocation['range']; contents: Array<{ value: string }> } | null> {
+    const analyzer = this.definitions.getAnalyzer(model.getLanguageId());
+    if (!analyzer?.provideHover) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const hover = await analyzer.provideHover(doc, position, this.definitions.getWorkspace());
+    if (!hover || token?.isCancellationRequested) return null;
+    return { range: hover.range, contents: hover.contents.map(value => ({ value })) };
+  }
+}
@@ -0,0 +1,55 @@
+import { DisposableLike, PositionLike, TextModelLike } from './monacoEnv';
+import { CancellationToken, DefinitionLocation } from './types';
+import { CompanionProvider } from './CompanionProvider';
+
+/**
+ * Find All References for Monaco Editor, backed by the analyzers of a
+ * {@link DefinitionProvider} — same workspace, same parsed-module caches.
+ *
+ * Only languages whose analyzer implements `provideReferences` answer
+ * (Python out of the box). TypeScript/JavaScript keep Monaco's built-in
+ * reference provider, so there is no point registering this one for them.
+ *
+ * @example
+ * ```typescript
+ * const definitions = new DefinitionProvider(monaco, options);
+ * const references = new ReferenceProvider(monaco, definitions);
+ * references.register('python');
+ * ```
+ */
+export class ReferenceProvider extends CompanionProvider {
+  /**
+   * Register this provider with Monaco for a language.
+   * @returns A disposable that unregisters just this registration.
+   */
+  register(languageId: string): DisposableLike {
+    return this.track(this.monaco.languages.registerReferenceProvider(languageId, this));
+  }
+
+  /** Monaco ReferenceProvider implementation. */
+  async provideReferences(
+    model: TextModelLike,
+    position: PositionLike,
+    context: { includeDeclaration: boolean },
+    token?: CancellationToken
+  ): Promise<Array<{ uri: unknown; range: DefinitionLocation['range'] }> | null> {
+    const analyzer = this.definitions.getAnalyzer(model.getLanguageId());
+    if (!analyzer?.provideReferences) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const locations = await analyzer.provideReferences(
+      doc,
+      position,
+      this.definitions.getWorkspace(),
+      context,
+      token
+    );
+    if (!locations || locations.length === 0 || token?.isCancellationRequested) {
+      return null;
+    }
+    return locations.map(location => ({
+      uri: this.monaco.Uri.parse(location.uri),
+      range: location.range
+    }));
+  }
+}
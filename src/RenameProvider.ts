@@ -0,0 +1,90 @@
+import { DisposableLike, PositionLike, TextModelLike, UriLike } from './monacoEnv';
+import { CancellationToken, DefinitionLocation } from './types';
+import { CompanionProvider } from './CompanionProvider';
+
+/** Shape of monaco's WorkspaceEdit (with an optional Rejection) returned by provideRenameEdits. */
+interface WorkspaceEditLike {
+  edits: Array<{
+    resource: UriLike;
+    textEdit: { range: DefinitionLocation['range']; text: string };
+    versionId: undefined;
+  }>;
+  rejectReason?: string;
+}
+
+/**
+ * Rename for Monaco Editor, backed by the analyzers of a
+ * {@link DefinitionProvider}. Produces one WorkspaceEdit spanning every
+ * tracked file that refers to the symbol; Monaco applies it to the models.
+ *
+ * Only languages whose analyzer implements `provideRenameEdits` answer
+ * (Python out of the box). Invalid names and collisions come back as a
+ * rejection, which Monaco shows instead of applying anything.
+ *
+ * @example
+ * ```typescript
+ * new RenameProvider(monaco, definitions).register('python');
+ * ```
+ */
+export class RenameProvider extends CompanionProvider {
+  /**
+   * Register this provider with Monaco for a language.
+   * @returns A disposable that unregisters just this registration.
+   */
+  register(languageId: string): DisposableLike {
+    return this.track(this.monaco.languages.registerRenameProvider(languageId, this));
+  }
+
+  /** Monaco RenameProvider implementation. */
+  async provideRenameEdits(
+    model: TextModelLike,
+    position: PositionLike,
+    newName: string,
+    token?: CancellationToken
+  ): Promise<WorkspaceEditLike | null> {
+    const analyzer = this.definitions.getAnalyzer(model.getLanguageId());
+    if (!analyzer?.provideRenameEdits) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const result = await analyzer.provideRenameEdits(doc, position, newName, this.definitions.getWorkspace(), token);
+    if (!result || token?.isCancellationRequested) return null;
+    if ('rejectReason' in result) return { edits: [], rejectReason: result.rejectReason };
+    return {
+      edits: result.map(edit => ({
+        resource: this.monaco.Uri.parse(edit.uri),
+        textEdit: { range: edit.range, text: edit.text },
+        versionId: undefined
+      }))
+    };
+  }
+
+  /** Monaco RenameProvider implementation: the range and text the rename box starts from. */
+  async resolveRenameLocation(
+    model: TextModelLike,
+    position: PositionLike,
+    token?: CancellationToken
+  ): Promise<{ range: DefinitionLocation['range']; text: string; rejectReason?: string } | null> {
+    const analyzer = this.definitions.getAnalyzer(model.getLanguageId());
+    if (!analyzer?.prepareRename) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const result = await analyzer.prepareRename(doc, position, this.definitions.getWorkspace(), token);
+    if (token?.isCancellationRequested) return null;
+    if (!result) {
+      return { range: emptyRange(position), text: '', rejectReason: 'No symbol to rename here' };
+    }
+    if ('rejectReason' in result) {
+      return { range: emptyRange(position), text: '', rejectReason: result.rejectReason };
+    }
+    return result;
+  }
+}
+
+function emptyRange(position: PositionLike): DefinitionLocation['range'] {
+  return {
+    startLineNumber: position.lineNumber,
+    startColumn: position.column,
+    endLineNumber: position.lineNumber,
+    endColumn: position.column
+  };
+}
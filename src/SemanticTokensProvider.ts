@@ -0,0 +1,112 @@
+import { DisposableLike, RangeLike, TextModelLike } from './monacoEnv';
+import { CancellationToken, SemanticToken, SemanticTokenModifier, SemanticTokenType } from './types';
+import { CompanionProvider } from './CompanionProvider';
+
+const TOKEN_TYPES: SemanticTokenType[] = [
+  'namespace',
+  'class',
+  'type',
+  'typeParameter',
+  'parameter',
+  'variable',
+  'property',
+  'function',
+  'method'
+];
+
+const TOKEN_MODIFIERS: SemanticTokenModifier[] = ['declaration', 'readonly', 'defaultLibrary'];
+
+/**
+ * Semantic highlighting for Monaco Editor: identifiers coloured by what they
+ * resolve to — parameter, local or global variable, class, function, method,
+ * imported module — where the Monarch grammar only sees words. Backed by the
+ * analyzers and workspace of a {@link DefinitionProvider}, whose cached trees
+ * it reads; registered for whole documents and for visible ranges.
+ *
+ * Monaco draws semantic tokens only with `'semanticHighlighting.enabled': true`
+ * and a theme with rules for the legend's token types.
+ *
+ * @example
+ * ```typescript
+ * new SemanticTokensProvider(monaco, definitions).register('python');
+ * ```
+ */
+export class SemanticTokensProvider extends CompanionProvider {
+  /**
+   * Register this provider with Monaco for a language, as both its document
+   * and its range semantic tokens provider.
+   * @returns A disposable that unregisters just this registration.
+   */
+  register(languageId: string): DisposableLike {
+    return this.track(
+      this.monaco.languages.registerDocumentSemanticTokensProvider(languageId, this),
+      this.monaco.languages.registerDocumentRangeSemanticTokensProvider(languageId, this)
+    );
+  }
+
+  /** Monaco SemanticTokensLegend: the token types and modifiers the encoded data indexes. */
+  getLegend(): { tokenTypes: string[]; tokenModifiers: string[] } {
+    return { tokenTypes: TOKEN_TYPES, tokenModifiers: TOKEN_MODIFIERS };
+  }
+
+  /** Monaco DocumentSemanticTokensProvider implementation. */
+  async provideDocumentSemanticTokens(
+    model: TextModelLike,
+    lastResultId?: string | null,
+    token?: CancellationToken
+  ): Promise<{ data: Uint32Array } | null> {
+    return this.provide(model, undefined, token);
+  }
+
+  /** Monaco DocumentSemanticTokensProvider implementation; results are not retained. */
+  releaseDocumentSemanticTokens(): void {}
+
+  /** Monaco DocumentRangeSemanticTokensProvider implementation. */
+  async provideDocumentRangeSemanticTokens(
+    model: TextModelLike,
+    range: RangeLike,
+    token?: CancellationToken
+  ): Promise<{ data: Uint32Array } | null> {
+    return this.provide(model, range, token);
+  }
+
+  private async provide(
+    model: TextModelLike,
+    range: RangeLike | undefined,
+    token: CancellationToken | undefined
+  ): Promise<{ data: Uint32Array } | null> {
+    const analyzer = this.definitions.getAnalyzer(model.getLanguageId());
+    if (!analyzer?.provideSemanticTokens) return null;
+
+    const doc = { uri: model.uri.toString(), getValue: () => model.getValue() };
+    const tokens = await analyzer.provideSemanticTokens(doc, this.definitions.getWorkspace(), range);
+    if (!tokens || token?.isCancellationRequested) return null;
+    return { data: encodeTokens(tokens) };
+  }
+}
+
+/**
+ * Monaco's packed encoding: five integers per token — line delta, start
+ * character (relative to the previous token on the same line), length, type
+ * index and modifier bit set. `tokens` must be in document order.
+ */
+function encodeTokens(tokens: SemanticToken[]): Uint32Array {
+  const data = new Uint32Array(tokens.length * 5);
+  let line = 0;
+  let character = 0;
+  tokens.forEach((token, index) => {
+    const tokenLine = token.range.startLineNumber - 1;
+    const tokenCharacter = token.range.startColumn - 1;
+    data[index * 5] = tokenLine - line;
+    data[index * 5 + 1] = tokenLine === line ? tokenCharacter - character : tokenCharacter;
+    data[index * 5 + 2] = token.range.endColumn - token.range.startColumn;
+    data[index * 5 + 3] = TOKEN_TYPES.indexOf(token.type);
+    data[index * 5 + 4] = token.modifiers.reduce(
+      (bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)),
+      0
+    );
+    line = tokenLine;
+    character = tokenCharacter;
+  });
+  return data;
+}
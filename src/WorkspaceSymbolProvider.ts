@@ -0,0 +1,178 @@
+import { CodeEditorLike, DisposableLike, MonacoLike } from './monacoEnv';
+import {
+  CancellationToken,
+  DocumentSymbol,
+  WorkspaceDocument,
+  WorkspaceSymbol,
+  WorkspaceSymbolPicker
+} from './types';
+import { CompanionProvider } from './CompanionProvider';
+import { DefinitionProvider } from './DefinitionProvider';
+import { isPythonStdlibUri } from './workspace/pythonStdlib';
+import { rankByName } from './workspace/symbolSearch';
+
+export interface WorkspaceSymbolProviderOptions {
+  /** Languages whose documents are searched (default `['python']`). */
+  languages?: string[];
+  /** Upper bound on results per search (default 256). */
+  maxResults?: number;
+}
+
+/** Symbols of one document, valid while its content is unchanged. */
+interface SymbolTable {
+  source: string;
+  languageId: string;
+  symbols: WorkspaceSymbol[];
+}
+
+const DEFINITION_KINDS = new Set<DocumentSymbol['kind']>([
+  'class',
+  'enum',
+  'function',
+  'method',
+  'constructor',
+  'property'
+]);
+
+/**
+ * "Go to Symbol in Workspace" without a language server: fuzzy search over
+ * the classes, functions and module-level names of every document the
+ * {@link DefinitionProvider}'s workspace tracks — open models and files
+ * `loadFile` has brought in. Each document's symbol table is built from its
+ * analyzer's outline and rebuilt when the document's content changes;
+ * documents that go away drop out. Bundled stdlib stubs are not searched.
+ *
+ * Monaco has no workspace-symbol contribution of its own, so
+ * {@link addEditorAction} wires the search into a host-provided picker.
+ *
+ * @example
+ * ```typescript
+ * const symbols = new WorkspaceSymbolProvider(monaco, definitions);
+ * const matches = await symbols.provideWorkspaceSymbols('usr');
+ * ```
+ */
+export class WorkspaceSymbolProvider extends CompanionProvider {
+  private readonly tables = new Map<string, SymbolTable>();
+
+  constructor(
+    monaco: MonacoLike,
+    definitions: DefinitionProvider,
+    private readonly options: WorkspaceSymbolProviderOptions = {}
+  ) {
+    super(monaco, definitions);
+  }
+
+  /** Symbols whose names fuzzy-match `query`, best match first. */
+  async provideWorkspaceSymbols(query: string, token?: CancellationToken): Promise<WorkspaceSymbol[]> {
+    const symbols: WorkspaceSymbol[] = [];
+    const seen = new Set<string>();
+    for (const languageId of this.options.languages ?? ['python']) {
+      for (const doc of this.searchableDocuments(languageId)) {
+        if (token?.isCancellationRequested) return [];
+        seen.add(doc.uri);
+        symbols.push(...(await this.symbolsOf(doc, languageId)));
+      }
+    }
+    for (const uri of this.tables.keys()) {
+      if (!seen.has(uri)) this.tables.delete(uri);
+    }
+    return rankByName(symbols, query.trim(), symbol => symbol.name).slice(0, this.options.maxResults ?? 256);
+  }
+
+  /**
+   * Add a "Go to Symbol in Workspace…" action to `editor`. Running it calls
+   * `pick` with a search function; the symbol it resolves to is revealed,
+   * switching the editor to the symbol's model when it lives elsewhere.
+   * @returns A disposable removing the action.
+   */
+  addEditorAction(
+    editor: CodeEditorLike,
+    pick: WorkspaceSymbolPicker,
+    keybindings?: number[]
+  ): DisposableLike {
+    const disposable = editor.addAction({
+      id: 'monaco-definition-provider.goToWorkspaceSymbol',
+      label: 'Go to Symbol in Workspace…',
+      keybindings,
+      run: async () => {
+        const symbol = await pick(query => this.provideWorkspaceSymbols(query));
+        if (symbol) this.reveal(editor, symbol);
+      }
+    });
+    return this.track(disposable);
+  }
+
+  /** Remove editor actions and forget every symbol table. */
+  dispose(): void {
+    super.dispose();
+    this.tables.clear();
+  }
+
+  /** Tracked documents of a language, notebooks split back into their cells. */
+  private searchableDocuments(languageId: string): WorkspaceDocument[] {
+    const workspace = this.definitions.getWorkspace();
+    return workspace
+      .getDocuments(languageId)
+      .filter(doc => !isPythonStdlibUri(doc.uri))
+      .flatMap(doc => (doc.cells ? doc.cells.flatMap(cell => workspace.getDocument(cell.uri) ?? []) : [doc]));
+  }
+
+  private async symbolsOf(doc: WorkspaceDocument, languageId: string): Promise<WorkspaceSymbol[]> {
+    const source = doc.getValue();
+    const cached = this.tables.get(doc.uri);
+    if (cached && cached.source === source) return cached.symbols;
+
+    const analyzer = this.definitions.getAnalyzer(languageId);
+    const workspace = this.definitions.getWorkspace();
+    const outline = analyzer?.provideDocumentSymbols
+      ? (await analyzer.provideDocumentSymbols(doc, workspace)) ?? []
+      : [];
+    const moduleName = workspace.moduleName(doc.uri) ?? undefined;
+    const symbols = flatten(outline, doc.uri, moduleName, true);
+    this.tables.set(doc.uri, { source, languageId, symbols });
+    return symbols;
+  }
+
+  /** Show `symbol` in `editor`, creating a model for a tracked document the editor has none for. */
+  private reveal(editor: CodeEditorLike, symbol: WorkspaceSymbol): void {
+    const { uri } = symbol.location;
+    let model = this.monaco.editor.getModel(this.monaco.Uri.parse(uri));
+    if (!model) {
+      const doc = this.definitions.getWorkspace().getDocument(uri);
+      if (!doc) return;
+      model = this.monaco.editor.createModel(
+        doc.getValue(),
+        this.tables.get(uri)?.languageId,
+        this.monaco.Uri.parse(uri)
+      );
+    }
+    if (editor.getModel()?.uri.toString() !== uri) editor.setModel(model);
+    editor.setSelection(symbol.location.range);
+    editor.revealRangeInCenter(symbol.location.range);
+    editor.focus();
+  }
+}
+
+/**
+ * Workspace symbols of an outline: everything at module level, and below it
+ * only definitions (methods, nested classes and functions).
+ */
+function flatten(
+  outline: DocumentSymbol[],
+  uri: string,
+  containerName: string | undefined,
+  topLevel: boolean
+): WorkspaceSymbol[] {
+  const symbols: WorkspaceSymbol[] = [];
+  for (const symbol of outline) {
+    if (!topLevel && !DEFINITION_KINDS.has(symbol.kind)) continue;
+    symbols.push({
+      name: symbol.name,
+      kind: symbol.kind,
+      containerName,
+      location: { uri, range: symbol.selectionRange }
+    });
+    symbols.push(...flatten(symbol.children, uri, symbol.name, false));
+  }
+  return symbols;
+}
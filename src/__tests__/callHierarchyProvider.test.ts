@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { CallHierarchyProvider } from '../CallHierarchyProvider';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('CallHierarchyProvider', () => {
+  it('skips registration when monaco has no call hierarchy contribution', () => {
+    const monaco = new FakeMonaco();
+    delete monaco.languages.registerCallHierarchyProvider;
+    const calls = new CallHierarchyProvider(monaco, new DefinitionProvider(monaco));
+
+    expect(calls.register('python')).toBeNull();
+    expect(monaco.registeredProviders).toEqual([]);
+  });
+
+  it('walks outgoing and incoming calls through monaco items', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel(
+      'file:///proj/main.py',
+      'from util import helper\ndef run():\n    helper()\n    helper()\n',
+      'python'
+    );
+    monaco.addModel('file:///proj/util.py', 'def helper():\n    pass\n', 'python');
+    const calls = new CallHierarchyProvider(monaco, new DefinitionProvider(monaco));
+
+    const session = await calls.prepareCallHierarchy(main, { lineNumber: 2, column: 5 });
+    const [run] = session?.roots ?? [];
+    expect(run).toMatchObject({ name: 'run', kind: 11, detail: 'main' });
+    expect(run.uri.toString()).toBe('file:///proj/main.py');
+
+    const outgoing = await calls.provideOutgoingCalls(run);
+    expect(outgoing?.map(call => [call.to.name, call.to.uri.toString(), call.fromRanges.length])).toEqual([
+      ['helper', 'file:///proj/util.py', 2]
+    ]);
+
+    const incoming = await calls.provideIncomingCalls(outgoing![0].to);
+    expect(incoming?.map(call => [call.from.name, call.from.kind])).toEqual([['run', 11]]);
+  });
+
+  it('expands callees defined in modules only loadFile provides', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel('file:///proj/main.py', 'from util import helper\ndef run():\n    helper()\n', 'python');
+    const definitions = new DefinitionProvider(monaco, {
+      loadFile: async uri =>
+        uri === 'file:///proj/util.py'
+          ? { uri, content: 'def helper():\n    inner()\ndef inner():\n    pass\n' }
+          : null
+    });
+    const calls = new CallHierarchyProvider(monaco, definitions);
+
+    const [run] = await calls.getCallHierarchyItems(main, { lineNumber: 2, column: 5 });
+    const [{ to: helper }] = await calls.getOutgoingCalls(run);
+    expect(helper).toMatchObject({ name: 'helper', uri: 'file:///proj/util.py', languageId: 'python' });
+
+    // Expanding does not depend on the editor knowing a model for the file.
+    monaco.editor.getModel = () => null;
+    expect((await calls.getOutgoingCalls(helper)).map(call => call.to.name)).toEqual(['inner']);
+    expect((await calls.getIncomingCalls(helper)).map(call => call.from.name)).toEqual(['run']);
+    const session = await calls.prepareCallHierarchy(main, { lineNumber: 2, column: 5 });
+    const outgoing = await calls.provideOutgoingCalls(session!.roots[0]);
+    expect((await calls.provideOutgoingCalls(outgoing![0].to))?.map(call => call.to.name)).toEqual(['inner']);
+  });
+
+  it('serves the same results through the plain API, in notebook cell coordinates', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'def greet():\n    pass', 'python');
+    const cell = monaco.addModel('file:///nb/a.ipynb#cell-1', 'greet()', 'python');
+    const calls = new CallHierarchyProvider(monaco, new DefinitionProvider(monaco, { notebooks: {} }));
+
+    const [greet] = await calls.getCallHierarchyItems(cell, { lineNumber: 1, column: 2 });
+    expect(greet).toMatchObject({ name: 'greet', kind: 'function', uri: 'file:///nb/a.ipynb#cell-0' });
+    expect(greet.selectionRange.startLineNumber).toBe(1);
+
+    const incoming = await calls.getIncomingCalls(greet);
+    expect(incoming.map(call => [call.from.kind, call.from.uri, call.fromRanges[0].startLineNumber])).toEqual([
+      ['module', 'file:///nb/a.ipynb#cell-1', 1]
+    ]);
+    expect(await calls.getOutgoingCalls(incoming[0].from)).toMatchObject([{ to: { name: 'greet' } }]);
+  });
+
+  it('returns nothing for languages without call hierarchy support', async () => {
+    const monaco = new FakeMonaco();
+    const model = monaco.addModel('file:///proj/x.ts', 'function f() {}\nf();\n', 'typescript');
+    const calls = new CallHierarchyProvider(monaco, new DefinitionProvider(monaco));
+
+    expect(await calls.prepareCallHierarchy(model, { lineNumber: 2, column: 1 })).toBeNull();
+    expect(await calls.getCallHierarchyItems(model, { lineNumber: 2, column: 1 })).toEqual([]);
+  });
+});
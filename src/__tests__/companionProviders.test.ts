@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { CallHierarchyProvider } from '../CallHierarchyProvider';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { DocumentHighlightProvider } from '../DocumentHighlightProvider';
+import { DocumentSymbolProvider } from '../DocumentSymbolProvider';
+import { HoverProvider } from '../HoverProvider';
+import { ReferenceProvider } from '../ReferenceProvider';
+import { RenameProvider } from '../RenameProvider';
+import { SemanticTokensProvider } from '../SemanticTokensProvider';
+import { DisposableLike, PositionLike } from '../monacoEnv';
+import { CancellationToken } from '../types';
+import { FakeModel, FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+/** A provider under test and its main request, bound to that provider. */
+interface Companion {
+  provider: { register(languageId: string): DisposableLike | null; dispose(): void };
+  request(model: FakeModel, position: PositionLike, token?: CancellationToken): Promise<unknown>;
+}
+
+const companions: Array<{ name: string; kinds: string[]; create(monaco: FakeMonaco): Companion }> = [
+  {
+    name: 'ReferenceProvider',
+    kinds: ['reference'],
+    create: monaco => {
+      const provider = new ReferenceProvider(monaco, new DefinitionProvider(monaco));
+      const context = { includeDeclaration: true };
+      return {
+        provider,
+        request: (model, position, token) => provider.provideReferences(model, position, context, token)
+      };
+    }
+  },
+  {
+    name: 'RenameProvider',
+    kinds: ['rename'],
+    create: monaco => {
+      const provider = new RenameProvider(monaco, new DefinitionProvider(monaco));
+      return {
+        provider,
+        request: (model, position, token) => provider.provideRenameEdits(model, position, 'g', token)
+      };
+    }
+  },
+  {
+    name: 'DocumentHighlightProvider',
+    kinds: ['documentHighlight'],
+    create: monaco => {
+      const provider = new DocumentHighlightProvider(monaco, new DefinitionProvider(monaco));
+      return {
+        provider,
+        request: (model, position, token) => provider.provideDocumentHighlights(model, position, token)
+      };
+    }
+  },
+  {
+    name: 'HoverProvider',
+    kinds: ['hover'],
+    create: monaco => {
+      const provider = new HoverProvider(monaco, new DefinitionProvider(monaco));
+      return {
+        provider,
+        request: (model, position, token) => provider.provideHover(model, position, token)
+      };
+    }
+  },
+  {
+    name: 'DocumentSymbolProvider',
+    kinds: ['documentSymbol'],
+    create: monaco => {
+      const provider = new DocumentSymbolProvider(monaco, new DefinitionProvider(monaco));
+      return {
+        provider,
+        request: (model, _position, token) => provider.provideDocumentSymbols(model, token)
+      };
+    }
+  },
+  {
+    name: 'CallHierarchyProvider',
+    kinds: ['callHierarchy'],
+    create: monaco => {
+      const provider = new CallHierarchyProvider(monaco, new DefinitionProvider(monaco));
+      return {
+        provider,
+        request: (model, position, token) => provider.prepareCallHierarchy(model, position, token)
+      };
+    }
+  },
+  {
+    name: 'SemanticTokensProvider',
+    kinds: ['semanticTokens', 'rangeSemanticTokens'],
+    create: monaco => {
+      const provider = new SemanticTokensProvider(monaco, new DefinitionProvider(monaco));
+      return {
+        provider,
+        request: (model, _position, token) => provider.provideDocumentSemanticTokens(model, null, token)
+      };
+    }
+  }
+];
+
+describe.each(companions)('$name', ({ kinds, create }) => {
+  it('registers and unregisters with monaco', () => {
+    const monaco = new FakeMonaco();
+    const { provider } = create(monaco);
+
+    const registration = provider.register('python');
+    expect(monaco.registeredProviders.map(r => [r.kind, r.languageId])).toEqual(kinds.map(kind => [kind, 'python']));
+    registration?.dispose();
+    expect(monaco.registeredProviders).toEqual([]);
+
+    provider.register('python');
+    provider.register('python');
+    provider.dispose();
+    expect(monaco.registeredProviders).toEqual([]);
+  });
+
+  it('returns null for languages without support', async () => {
+    const monaco = new FakeMonaco();
+    const model = monaco.addModel('file:///proj/x.ts', 'function f() {}\nf();\n', 'typescript');
+    const { request } = create(monaco);
+
+    expect(await request(model, { lineNumber: 2, column: 1 })).toBeNull();
+  });
+
+  it('returns null when cancelled', async () => {
+    const monaco = new FakeMonaco();
+    const model = monaco.addModel('file:///proj/main.py', 'def f(x):\n    return x\n\nf(1)\n', 'python');
+    const { request } = create(monaco);
+    const position = { lineNumber: 1, column: 5 };
+
+    expect(await request(model, position)).not.toBeNull();
+    expect(await request(model, position, { isCancellationRequested: true })).toBeNull();
+  });
+});
@@ -24,6 +24,56 @@ describe('DefinitionProvider', () => {
     expect(monaco.registeredProviders).toEqual([]);
   });
 
+  it('opts into type definitions and implementations per registration', async () => {
+    const monaco = new FakeMonaco();
+    const provider = new DefinitionProvider(monaco);
+
+    const reg = provider.register('python', { typeDefinition: true, implementation: true });
+    provider.register('typescript');
+    expect(monaco.registeredProviders.map(r => [r.kind, r.languageId])).toEqual([
+      ['definition', 'python'],
+      ['typeDefinition', 'python'],
+      ['implementation', 'python'],
+      ['definition', 'typescript']
+    ]);
+
+    reg.dispose();
+    expect(monaco.registeredProviders.map(r => r.languageId)).toEqual(['typescript']);
+  });
+
+  it('resolves type definitions across lazily loaded files', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel(
+      'file:///proj/main.py',
+      'from models import Order\n\ndef ship(orders: list[Order] | None):\n    return orders\n',
+      'python'
+    );
+    const provider = new DefinitionProvider(monaco, {
+      loadFile: async uri =>
+        uri === 'file:///proj/models.py' ? { uri, content: 'class Order:\n    pass\n' } : null
+    });
+
+    const result = await provider.provideTypeDefinition(main, { lineNumber: 4, column: 12 });
+
+    expect(result?.map(location => [String(location.uri), location.range.startLineNumber])).toEqual([
+      ['file:///proj/models.py', 1]
+    ]);
+  });
+
+  it('finds implementations in every tracked python model', async () => {
+    const monaco = new FakeMonaco();
+    const base = monaco.addModel('file:///proj/base.py', 'class Plugin:\n    def run(self): ...\n', 'python');
+    const csv = 'from base import Plugin\nclass Csv(Plugin):\n    def run(self): pass\n';
+    monaco.addModel('file:///proj/csv.py', csv, 'python');
+    const provider = new DefinitionProvider(monaco);
+
+    const result = await provider.provideImplementation(base, { lineNumber: 2, column: 9 });
+
+    expect(result?.map(location => [String(location.uri), location.range.startLineNumber])).toEqual([
+      ['file:///proj/csv.py', 3]
+    ]);
+  });
+
   it('resolves python definitions end-to-end across lazily loaded files', async () => {
     const monaco = new FakeMonaco();
     const main = monaco.addModel(
@@ -53,6 +103,77 @@ describe('DefinitionProvider', () => {
     expect(loadFile).toHaveBeenCalledTimes(1);
   });
 
+  it('hands every candidate of a conditional definition to monaco', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel(
+      'file:///proj/main.py',
+      'if fast:\n    def run(): pass\nelse:\n    def run(): pass\nrun()\n',
+      'python'
+    );
+    const provider = new DefinitionProvider(monaco);
+
+    const result = await provider.provideDefinition(main, { lineNumber: 5, column: 1 });
+
+    expect(result!.map(location => location.range.startLineNumber)).toEqual([2, 4]);
+    expect(result!.every(location => location.uri.toString() === 'file:///proj/main.py')).toBe(true);
+  });
+
+  it('navigates builtins and stdlib names into bundled stubs', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel(
+      'file:///proj/main.py',
+      [
+        'import os',
+        'class Invalid(Exception):',
+        '    pass',
+        'print(len([]), os.path.join("a", "b"))',
+        'Invalid("x").args'
+      ].join('\n'),
+      'python'
+    );
+    const provider = new DefinitionProvider(monaco, { python: { stdlibStubs: true } });
+    const at = async (lineNumber: number, column: number) => {
+      const result = await provider.provideDefinition(main, { lineNumber, column });
+      const target = result && monaco.editor.getModel(result[0].uri);
+      const line = target?.getValue().split('\n')[result![0].range.startLineNumber - 1];
+      return { uri: result?.[0].uri.toString(), line };
+    };
+
+    expect(await at(2, 15)).toEqual({
+      uri: 'python-stdlib://bundled/builtins.pyi',
+      line: 'class Exception(BaseException): ...'
+    });
+    expect((await at(4, 7)).line).toMatch(/^def len\(/);
+    expect(await at(4, 24)).toMatchObject({ uri: 'python-stdlib://bundled/os/path.pyi' });
+    expect((await at(4, 24)).line).toMatch(/^def join\(/);
+    // Members inherited from a builtin base class.
+    expect((await at(5, 14)).line).toMatch(/^ {4}args:/);
+
+    // Without the option builtins stay unresolved.
+    const plain = new DefinitionProvider(monaco);
+    expect(await plain.provideDefinition(main, { lineNumber: 4, column: 7 })).toBeNull();
+  });
+
+  it('resolves names across notebook cells and lands in the defining cell', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/eda.ipynb#cell-0', 'import math\n\ndef area(r):\n    return math.pi * r', 'python');
+    monaco.addModel('file:///nb/eda.ipynb#cell-1', '!pip install pandas\nradius = 2', 'python');
+    const last = monaco.addModel('file:///nb/eda.ipynb#cell-2', 'area(radius)', 'python');
+    const provider = new DefinitionProvider(monaco, { notebooks: {} });
+
+    const toArea = await provider.provideDefinition(last, { lineNumber: 1, column: 2 });
+    expect(toArea?.map(location => location.uri.toString())).toEqual(['file:///nb/eda.ipynb#cell-0']);
+    expect(toArea![0].range).toEqual({ startLineNumber: 3, startColumn: 5, endLineNumber: 3, endColumn: 9 });
+
+    const toRadius = await provider.provideDefinition(last, { lineNumber: 1, column: 7 });
+    expect(toRadius![0].uri.toString()).toBe('file:///nb/eda.ipynb#cell-1');
+    expect(toRadius![0].range.startLineNumber).toBe(2);
+
+    // Without notebook mode every cell is its own module.
+    const isolated = new DefinitionProvider(monaco);
+    expect(await isolated.provideDefinition(last, { lineNumber: 1, column: 2 })).toBeNull();
+  });
+
   it('returns null for unknown languages', async () => {
     const monaco = new FakeMonaco();
     const model = monaco.addModel('file:///proj/x.rb', 'def x; end\n', 'ruby');
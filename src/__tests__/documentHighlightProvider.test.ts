@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { DocumentHighlightProvider } from '../DocumentHighlightProvider';
+import { FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('DocumentHighlightProvider', () => {
+  it('returns monaco highlight kinds for reads and writes', async () => {
+    const monaco = new FakeMonaco();
+    const model = monaco.addModel('file:///proj/main.py', 'total = 0\ntotal += 1\nprint(total)\n', 'python');
+    const highlights = new DocumentHighlightProvider(monaco, new DefinitionProvider(monaco));
+
+    const result = await highlights.provideDocumentHighlights(model, { lineNumber: 3, column: 8 });
+
+    expect(result?.map(h => [h.range.startLineNumber, h.kind])).toEqual([
+      [1, 2],
+      [2, 2],
+      [3, 1]
+    ]);
+  });
+
+  it('highlights only the current cell of a notebook', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'total = 0', 'python');
+    const cell = monaco.addModel('file:///nb/a.ipynb#cell-1', 'print(total)\ntotal', 'python');
+    const highlights = new DocumentHighlightProvider(monaco, new DefinitionProvider(monaco, { notebooks: {} }));
+
+    const result = await highlights.provideDocumentHighlights(cell, { lineNumber: 1, column: 8 });
+
+    expect(result?.map(h => [h.range.startLineNumber, h.range.startColumn, h.kind])).toEqual([
+      [1, 7, 1],
+      [2, 1, 1]
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { DocumentSymbolProvider } from '../DocumentSymbolProvider';
+import { FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('DocumentSymbolProvider', () => {
+  it('returns monaco symbol kinds with nested children', async () => {
+    const monaco = new FakeMonaco();
+    const model = monaco.addModel(
+      'file:///proj/main.py',
+      'LIMIT = 3\nclass Job:\n    def run(self):\n        pass\ndef main():\n    pass\n',
+      'python'
+    );
+    const symbols = new DocumentSymbolProvider(monaco, new DefinitionProvider(monaco));
+
+    const result = await symbols.provideDocumentSymbols(model);
+
+    const kinds = result?.map(symbol => [
+      symbol.name,
+      symbol.kind,
+      symbol.children.map(child => [child.name, child.kind])
+    ]);
+    expect(kinds).toEqual([
+      ['LIMIT', 13, []],
+      ['Job', 4, [['run', 5]]],
+      ['main', 11, []]
+    ]);
+  });
+
+  it('lists only the symbols of a notebook cell, in cell coordinates', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'import pandas\ntotal = 0', 'python');
+    const cell = monaco.addModel('file:///nb/a.ipynb#cell-1', 'def report():\n    return total', 'python');
+    const symbols = new DocumentSymbolProvider(monaco, new DefinitionProvider(monaco, { notebooks: {} }));
+
+    const result = await symbols.provideDocumentSymbols(cell);
+
+    expect(result?.map(symbol => [symbol.name, symbol.range.startLineNumber, symbol.range.endLineNumber])).toEqual([
+      ['report', 1, 2]
+    ]);
+  });
+});
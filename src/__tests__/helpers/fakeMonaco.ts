@@ -1,7 +1,9 @@
 import type {
+  CodeEditorLike,
   DisposableLike,
   MonacoLike,
   PositionLike,
+  RangeLike,
   TextModelLike,
   TypeScriptNamespaceLike,
   UriLike
@@ -65,23 +67,34 @@ export class FakeModel implements TextModelLike {
 export class FakeMonaco implements MonacoLike {
   private readonly models: FakeModel[] = [];
   private readonly createListeners: Array<(model: TextModelLike) => void> = [];
-  readonly registeredProviders: Array<{ languageId: string; provider: object }> = [];
+  readonly registeredProviders: Array<{ kind: string; languageId: string; provider: object }> = [];
 
   readonly languages: MonacoLike['languages'];
 
   constructor(public typescriptNamespace?: TypeScriptNamespaceLike) {
     const self = this;
+    const registrar = (kind: string) => (languageId: string, provider: object): DisposableLike => {
+      const entry = { kind, languageId, provider };
+      self.registeredProviders.push(entry);
+      return {
+        dispose: () => {
+          const index = self.registeredProviders.indexOf(entry);
+          if (index >= 0) self.registeredProviders.splice(index, 1);
+        }
+      };
+    };
     this.languages = {
-      registerDefinitionProvider: (languageId: string, provider: object): DisposableLike => {
-        const entry = { languageId, provider };
-        self.registeredProviders.push(entry);
-        return {
-          dispose: () => {
-            const index = self.registeredProviders.indexOf(entry);
-            if (index >= 0) self.registeredProviders.splice(index, 1);
-          }
-        };
-      },
+      registerDefinitionProvider: registrar('definition'),
+      registerTypeDefinitionProvider: registrar('typeDefinition'),
+      registerImplementationProvider: registrar('implementation'),
+      registerReferenceProvider: registrar('reference'),
+      registerRenameProvider: registrar('rename'),
+      registerDocumentHighlightProvider: registrar('documentHighlight'),
+      registerHoverProvider: registrar('hover'),
+      registerDocumentSymbolProvider: registrar('documentSymbol'),
+      registerDocumentSemanticTokensProvider: registrar('semanticTokens'),
+      registerDocumentRangeSemanticTokensProvider: registrar('rangeSemanticTokens'),
+      registerCallHierarchyProvider: registrar('callHierarchy'),
       get typescript(): TypeScriptNamespaceLike | undefined {
         return self.typescriptNamespace;
       }
@@ -121,3 +134,37 @@ export class FakeMonaco implements MonacoLike {
     return model;
   }
 }
+
+/** Editor double recording its model, selection and added actions. */
+export class FakeEditor implements CodeEditorLike {
+  readonly actions: Array<Parameters<CodeEditorLike['addAction']>[0]> = [];
+  selection: RangeLike | null = null;
+
+  constructor(private model: TextModelLike | null = null) {}
+
+  getModel(): TextModelLike | null {
+    return this.model;
+  }
+
+  setModel(model: TextModelLike): void {
+    this.model = model;
+  }
+
+  setSelection(range: RangeLike): void {
+    this.selection = range;
+  }
+
+  revealRangeInCenter(): void {}
+
+  focus(): void {}
+
+  addAction(descriptor: Parameters<CodeEditorLike['addAction']>[0]): DisposableLike {
+    this.actions.push(descriptor);
+    return {
+      dispose: () => {
+        const index = this.actions.indexOf(descriptor);
+        if (index >= 0) this.actions.splice(index, 1);
+      }
+    };
+  }
+}
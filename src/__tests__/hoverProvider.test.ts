@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { HoverProvider } from '../HoverProvider';
+import { FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('HoverProvider', () => {
+  it('describes definitions in lazily loaded files', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel('file:///proj/main.py', 'from pkg.util import helper\nhelper()\n', 'python');
+    monaco.addModel('file:///proj/pkg/__init__.py', '', 'python');
+    const definitions = new DefinitionProvider(monaco, {
+      loadFile: async uri =>
+        uri === 'file:///proj/pkg/util.py'
+          ? { uri, content: 'def helper() -> None:\n    """Do the thing."""\n' }
+          : null
+    });
+    const hovers = new HoverProvider(monaco, definitions);
+
+    const hover = await hovers.provideHover(main, { lineNumber: 2, column: 3 });
+
+    expect(hover?.range).toEqual({ startLineNumber: 2, startColumn: 1, endLineNumber: 2, endColumn: 7 });
+    expect(hover?.contents).toEqual([
+      { value: '```python\ndef helper() -> None\n```\n\nDo the thing.\n\nDefined in `pkg.util`' }
+    ]);
+  });
+});
@@ -2,7 +2,9 @@ import { describe, it, expect } from 'vitest';
 import {
   uriDirname,
   uriJoin,
+  uriWithoutTrailingSlash,
   resolvePythonImport,
+  absolutePythonImport,
   resolveTsImport,
   commonRoot
 } from '../workspace/moduleResolver';
@@ -30,37 +32,55 @@ describe('uriJoin', () => {
   });
 });
 
+describe('uriWithoutTrailingSlash', () => {
+  it('drops trailing slashes but keeps the scheme of a bare root', () => {
+    expect(uriWithoutTrailingSlash('file:///repo/src/')).toBe('file:///repo/src');
+    expect(uriWithoutTrailingSlash('file:///repo//')).toBe('file:///repo');
+    expect(uriWithoutTrailingSlash('file:///')).toBe(uriDirname('file:///main.py'));
+    expect(uriWithoutTrailingSlash('inmemory://model/')).toBe('inmemory://model');
+  });
+});
+
 describe('resolvePythonImport', () => {
   const fromUri = 'file:///proj/pkg/sub/mod.py';
 
   it('resolves single-dot relative imports against the current package', () => {
     expect(resolvePythonImport('.utils', fromUri)).toEqual([
       'file:///proj/pkg/sub/utils.py',
-      'file:///proj/pkg/sub/utils/__init__.py'
+      'file:///proj/pkg/sub/utils/__init__.py',
+      'file:///proj/pkg/sub/utils.pyi',
+      'file:///proj/pkg/sub/utils/__init__.pyi'
     ]);
   });
 
   it('resolves multi-dot relative imports by walking up', () => {
     expect(resolvePythonImport('..helpers', fromUri)).toEqual([
       'file:///proj/pkg/helpers.py',
-      'file:///proj/pkg/helpers/__init__.py'
+      'file:///proj/pkg/helpers/__init__.py',
+      'file:///proj/pkg/helpers.pyi',
+      'file:///proj/pkg/helpers/__init__.pyi'
     ]);
     expect(resolvePythonImport('...top', fromUri)).toEqual([
       'file:///proj/top.py',
-      'file:///proj/top/__init__.py'
+      'file:///proj/top/__init__.py',
+      'file:///proj/top.pyi',
+      'file:///proj/top/__init__.pyi'
     ]);
   });
 
   it('resolves dotted remainders into nested paths', () => {
     expect(resolvePythonImport('..a.b', fromUri)).toEqual([
       'file:///proj/pkg/a/b.py',
-      'file:///proj/pkg/a/b/__init__.py'
+      'file:///proj/pkg/a/b/__init__.py',
+      'file:///proj/pkg/a/b.pyi',
+      'file:///proj/pkg/a/b/__init__.pyi'
     ]);
   });
 
   it('resolves bare "." to the package __init__', () => {
     expect(resolvePythonImport('.', fromUri)).toEqual([
-      'file:///proj/pkg/sub/__init__.py'
+      'file:///proj/pkg/sub/__init__.py',
+      'file:///proj/pkg/sub/__init__.pyi'
     ]);
   });
 
@@ -68,8 +88,21 @@ describe('resolvePythonImport', () => {
     expect(resolvePythonImport('pkg.utils', fromUri, ['file:///proj', 'file:///other'])).toEqual([
       'file:///proj/pkg/utils.py',
       'file:///proj/pkg/utils/__init__.py',
+      'file:///proj/pkg/utils.pyi',
+      'file:///proj/pkg/utils/__init__.pyi',
       'file:///other/pkg/utils.py',
-      'file:///other/pkg/utils/__init__.py'
+      'file:///other/pkg/utils/__init__.py',
+      'file:///other/pkg/utils.pyi',
+      'file:///other/pkg/utils/__init__.pyi'
+    ]);
+  });
+
+  it('puts stub candidates first when stubs are preferred', () => {
+    expect(resolvePythonImport('.utils', fromUri, [], 'stub')).toEqual([
+      'file:///proj/pkg/sub/utils.pyi',
+      'file:///proj/pkg/sub/utils/__init__.pyi',
+      'file:///proj/pkg/sub/utils.py',
+      'file:///proj/pkg/sub/utils/__init__.py'
     ]);
   });
 
@@ -78,6 +111,23 @@ describe('resolvePythonImport', () => {
   });
 });
 
+describe('absolutePythonImport', () => {
+  const fromUri = 'file:///proj/src/pkg/sub/mod.py';
+  const roots = ['file:///proj', 'file:///proj/src'];
+
+  it('rewrites relative imports against the innermost containing root', () => {
+    expect(absolutePythonImport('.utils', fromUri, roots)).toBe('pkg.sub.utils');
+    expect(absolutePythonImport('..helpers.io', fromUri, roots)).toBe('pkg.helpers.io');
+    expect(absolutePythonImport('.', fromUri, roots)).toBe('pkg.sub');
+  });
+
+  it('returns null when the import cannot be made absolute', () => {
+    expect(absolutePythonImport('os.path', fromUri, roots)).toBeNull();
+    expect(absolutePythonImport('....too.far', fromUri, roots)).toBeNull();
+    expect(absolutePythonImport('.utils', 'file:///elsewhere/mod.py', roots)).toBeNull();
+  });
+});
+
 describe('resolveTsImport', () => {
   const fromUri = 'file:///proj/src/app.ts';
 
@@ -1,7 +1,14 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
 import { PythonAnalyzer } from '../analyzers/python/PythonAnalyzer';
 import { testPythonParser } from './helpers/pythonTestParser';
-import type { DefinitionLocation, WorkspaceAccess, WorkspaceDocument } from '../types';
+import type {
+  CallHierarchyItem,
+  DefinitionLocation,
+  DocumentSymbol,
+  ModuleFlavor,
+  WorkspaceAccess,
+  WorkspaceDocument
+} from '../types';
 import { resolvePythonImport } from '../workspace/moduleResolver';
 
 /**
@@ -19,13 +26,21 @@ class FakeWorkspace implements WorkspaceAccess {
     return content === undefined ? null : { uri, getValue: () => content };
   }
 
-  async resolveImport(importPath: string, fromUri: string): Promise<WorkspaceDocument | null> {
-    for (const candidate of resolvePythonImport(importPath, fromUri, [this.root])) {
+  async resolveImport(
+    importPath: string,
+    fromUri: string,
+    flavor?: ModuleFlavor
+  ): Promise<WorkspaceDocument | null> {
+    for (const candidate of resolvePythonImport(importPath, fromUri, [this.root], flavor)) {
       const doc = this.getDocument(candidate);
       if (doc) return doc;
     }
     return null;
   }
+
+  getDocuments(): WorkspaceDocument[] {
+    return Object.keys(this.files).flatMap(uri => this.getDocument(uri) ?? []);
+  }
 }
 
 const EMPTY_WORKSPACE = new FakeWorkspace({});
@@ -302,4 +317,1784 @@ describe('PythonAnalyzer — cross-file imports', () => {
       range: { startLineNumber: 1, startColumn: 1 }
     });
   });
+
+  it('does not bind the module name of a from-import', async () => {
+    const source = 'utils = 1\nfrom utils import helper\nutils\n';
+    expect((await definitionAt(source, 'utils', 3, workspace))![0].range.startLineNumber).toBe(1);
+  });
+});
+
+describe('PythonAnalyzer — re-export chains', () => {
+  const workspace = new FakeWorkspace({
+    'file:///proj/shop/__init__.py': 'from .models import Widget, Gadget as Gizmo\nfrom . import impl\n',
+    'file:///proj/shop/models/__init__.py': 'from .widget import Widget\nfrom .broken import Gadget\n',
+    'file:///proj/shop/models/widget.py': 'class Widget:\n    pass\n',
+    'file:///proj/shop/impl.py': 'def build():\n    pass\n',
+    'file:///proj/cycle_a.py': 'from cycle_b import thing\n',
+    'file:///proj/cycle_b.py': 'from cycle_a import thing\n'
+  });
+
+  it('follows facade packages transitively to the real definition', async () => {
+    const source = 'from shop import Widget\n\nWidget()\n';
+    const result = await definitionAt(source, 'Widget', 2, workspace);
+    expect(result).toEqual([
+      {
+        uri: 'file:///proj/shop/models/widget.py',
+        range: { startLineNumber: 1, startColumn: 7, endLineNumber: 1, endColumn: 13 }
+      }
+    ]);
+  });
+
+  it('follows re-exports from the import statement and through module attributes', async () => {
+    const onImport = await definitionAt('from shop import Widget\n', 'Widget', 1, workspace);
+    expect(onImport![0].uri).toBe('file:///proj/shop/models/widget.py');
+
+    const viaAttribute = await definitionAt('import shop\n\nshop.Widget()\n', 'Widget', 1, workspace);
+    expect(viaAttribute![0].uri).toBe('file:///proj/shop/models/widget.py');
+  });
+
+  it('follows re-exported submodules', async () => {
+    const source = 'from shop import impl\n\nimpl.build()\n';
+    const result = await definitionAt(source, 'impl', 2, workspace);
+    expect(result![0]).toMatchObject({ uri: 'file:///proj/shop/impl.py', range: { startLineNumber: 1 } });
+  });
+
+  it('lands on the last resolvable re-export when the chain is broken', async () => {
+    const source = 'from shop import Gizmo\n\nGizmo()\n';
+    const result = await definitionAt(source, 'Gizmo', 2, workspace);
+    expect(result![0]).toMatchObject({
+      uri: 'file:///proj/shop/models/__init__.py',
+      range: { startLineNumber: 2, startColumn: 21 }
+    });
+  });
+
+  it('stops on import cycles', async () => {
+    const source = 'from cycle_a import thing\n\nthing\n';
+    const result = await definitionAt(source, 'thing', 2, workspace);
+    expect(result![0].uri).toMatch(/cycle_[ab]\.py$/);
+  });
+});
+
+describe('PythonAnalyzer — wildcard imports', () => {
+  const workspace = new FakeWorkspace({
+    'file:///proj/legacy/__init__.py': 'from .constants import *\nfrom .shapes import *\n',
+    'file:///proj/legacy/constants.py': 'PI = 3.14\n_PRIVATE = 1\nE = 2.71\n',
+    'file:///proj/legacy/shapes.py': '__all__ = ["Circle"]\n\nclass Circle:\n    pass\n\nclass Square:\n    pass\n\nE = "shadowed?"\n'
+  });
+
+  it('resolves names brought in by a star import', async () => {
+    const source = 'from legacy.constants import *\n\nprint(PI)\n';
+    const result = await definitionAt(source, 'PI', 1, workspace);
+    expect(result).toEqual([
+      {
+        uri: 'file:///proj/legacy/constants.py',
+        range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 3 }
+      }
+    ]);
+  });
+
+  it('excludes underscore names when there is no __all__', async () => {
+    const source = 'from legacy.constants import *\n\nprint(_PRIVATE)\n';
+    expect(await definitionAt(source, '_PRIVATE', 1, workspace)).toBeNull();
+  });
+
+  it('honours a literal __all__', async () => {
+    const source = 'from legacy.shapes import *\n\nCircle()\nSquare()\n';
+    expect((await definitionAt(source, 'Circle', 1, workspace))![0].range.startLineNumber).toBe(3);
+    expect(await definitionAt(source, 'Square', 1, workspace)).toBeNull();
+  });
+
+  it('follows star imports inside re-exporting packages', async () => {
+    const source = 'from legacy import PI, Circle\n\nPI\n';
+    expect((await definitionAt(source, 'PI', 2, workspace))![0].uri).toBe('file:///proj/legacy/constants.py');
+    expect((await definitionAt(source, 'Circle', 1, workspace))![0].uri).toBe('file:///proj/legacy/shapes.py');
+  });
+
+  it('lets later star imports shadow earlier ones, within __all__', async () => {
+    // shapes.py defines E too, but its __all__ does not export it.
+    const source = 'from legacy import *\n\nE\n';
+    const result = await definitionAt(source, 'E', 1, workspace);
+    expect(result![0].uri).toBe('file:///proj/legacy/constants.py');
+  });
+
+  it('prefers explicit bindings over star-imported names', async () => {
+    const source = 'from legacy.constants import *\nPI = 3\nprint(PI)\n';
+    const result = await definitionAt(source, 'PI', 2, workspace);
+    expect(result![0]).toMatchObject({ uri: 'file:///proj/main.py', range: { startLineNumber: 2 } });
+  });
+});
+
+describe('PythonAnalyzer — self and cls attributes', () => {
+  const source = [
+    'class Counter:',
+    '    step = 1',
+    '',
+    '    def __init__(self, start):',
+    '        self.count = start',
+    '',
+    '    def reset(self):',
+    '        self.count = 0',
+    '        self.label = "reset"',
+    '',
+    '    def bump(self):',
+    '        self.save()',
+    '        self.count += self.step',
+    '        return self.label',
+    '',
+    '    def save(self):',
+    '        pass',
+    '',
+    '    @classmethod',
+    '    def create(cls):',
+    '        cls.instances = 1',
+    '        return cls.step',
+    '',
+    '    @staticmethod',
+    '    def helper(other):',
+    '        return other.count',
+    ''
+  ].join('\n');
+
+  it('resolves self.method() to the method definition', async () => {
+    const result = await definitionAt(source, 'save', 1);
+    expect(result![0].range).toMatchObject({ startLineNumber: 16, startColumn: 9 });
+  });
+
+  it('prefers instance attributes assigned in __init__', async () => {
+    const result = await definitionAt(source, 'count', 3);
+    expect(result![0].range).toMatchObject({ startLineNumber: 5, startColumn: 14 });
+  });
+
+  it('falls back to attributes assigned in other methods', async () => {
+    const result = await definitionAt(source, 'label', 2);
+    expect(result![0].range.startLineNumber).toBe(9);
+  });
+
+  it('resolves class attributes through self and cls', async () => {
+    expect((await definitionAt(source, 'step', 2))![0].range.startLineNumber).toBe(2);
+    expect((await definitionAt(source, 'step', 3))![0].range.startLineNumber).toBe(2);
+  });
+
+  it('does not treat the first parameter of a staticmethod as self', async () => {
+    expect(await definitionAt(source, 'count', 4)).toBeNull();
+  });
+
+  it('resolves self inside closures nested in methods', async () => {
+    const nested = 'class A:\n    def run(self):\n        def inner():\n            return self.run\n        return inner\n';
+    const result = await definitionAt(nested, 'run', 2);
+    expect(result![0].range.startLineNumber).toBe(2);
+  });
+});
+
+describe('PythonAnalyzer — inheritance', () => {
+  const workspace = new FakeWorkspace({
+    'file:///proj/base.py': [
+      'class Base:',
+      '    def __init__(self):',
+      '        self.registry = {}',
+      '',
+      '    def save(self):',
+      '        pass',
+      '',
+      '    def describe(self):',
+      '        pass',
+      ''
+    ].join('\n'),
+    'file:///proj/models/__init__.py': 'from ..base import Base\n'
+  });
+
+  it('finds inherited members through self, across files', async () => {
+    const source = [
+      'from base import Base',
+      '',
+      'class Child(Base):',
+      '    def run(self):',
+      '        self.save()',
+      '        return self.registry',
+      ''
+    ].join('\n');
+    const save = await definitionAt(source, 'save', 1, workspace);
+    expect(save).toEqual([
+      {
+        uri: 'file:///proj/base.py',
+        range: { startLineNumber: 5, startColumn: 9, endLineNumber: 5, endColumn: 13 }
+      }
+    ]);
+    const registry = await definitionAt(source, 'registry', 1, workspace);
+    expect(registry![0]).toMatchObject({ uri: 'file:///proj/base.py', range: { startLineNumber: 3 } });
+  });
+
+  it('resolves Subclass.inherited_method to the base', async () => {
+    const source = 'import base\n\nclass Child(base.Base):\n    pass\n\nChild.describe\n';
+    const result = await definitionAt(source, 'describe', 1, workspace);
+    expect(result![0]).toMatchObject({ uri: 'file:///proj/base.py', range: { startLineNumber: 8 } });
+  });
+
+  it('jumps from super().method() to the next definition up the chain', async () => {
+    const source = [
+      'from base import Base',
+      '',
+      'class Child(Base):',
+      '    def save(self):',
+      '        super().save()',
+      '',
+      'class GrandChild(Child):',
+      '    def save(self):',
+      '        super().save()',
+      '        super(Child, self).save()',
+      ''
+    ].join('\n');
+    const fromChild = await definitionAt(source, 'save', 2, workspace);
+    expect(fromChild![0]).toMatchObject({ uri: 'file:///proj/base.py', range: { startLineNumber: 5 } });
+
+    const fromGrandChild = await definitionAt(source, 'save', 4, workspace);
+    expect(fromGrandChild![0]).toMatchObject({ uri: 'file:///proj/main.py', range: { startLineNumber: 4 } });
+
+    const explicit = await definitionAt(source, 'save', 5, workspace);
+    expect(explicit![0].uri).toBe('file:///proj/base.py');
+  });
+
+  it('walks bases in C3 order for diamonds', async () => {
+    const source = [
+      'class A:',
+      '    def greet(self): pass',
+      'class B(A):',
+      '    pass',
+      'class C(A):',
+      '    def greet(self): pass',
+      'class D(B, C):',
+      '    def run(self):',
+      '        self.greet()',
+      ''
+    ].join('\n');
+    // MRO is D, B, C, A — C.greet wins over A.greet despite B coming first.
+    const result = await definitionAt(source, 'greet', 3);
+    expect(result![0].range.startLineNumber).toBe(6);
+  });
+
+  it('follows bases re-exported by packages and generic subscripts', async () => {
+    const source = 'from models import Base\nfrom typing import Generic\n\nclass Repo(Base, Generic[int]):\n    def f(self):\n        self.save()\n';
+    const result = await definitionAt(source, 'save', 1, workspace);
+    expect(result![0].uri).toBe('file:///proj/base.py');
+  });
+
+  it('survives inheritance cycles', async () => {
+    const source = 'class A(B):\n    pass\nclass B(A):\n    pass\nA.missing\n';
+    expect(await definitionAt(source, 'missing')).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — local type inference', () => {
+  const workspace = new FakeWorkspace({
+    'file:///proj/api.py': [
+      'class ApiClient:',
+      '    def fetch(self):',
+      '        pass',
+      '',
+      'class Session:',
+      '    def close(self):',
+      '        pass',
+      '',
+      'def connect() -> ApiClient:',
+      '    return ApiClient()',
+      ''
+    ].join('\n')
+  });
+
+  async function fetchTarget(source: string, occurrence = 1) {
+    return definitionAt(source, 'fetch', occurrence, workspace);
+  }
+
+  it('infers instances from constructor calls', async () => {
+    const result = await fetchTarget('from api import ApiClient\n\nclient = ApiClient()\nclient.fetch()\n');
+    expect(result).toEqual([
+      {
+        uri: 'file:///proj/api.py',
+        range: { startLineNumber: 2, startColumn: 9, endLineNumber: 2, endColumn: 14 }
+      }
+    ]);
+  });
+
+  it('infers parameters from annotations, unwrapping Optional and None unions', async () => {
+    for (const annotation of ['ApiClient', 'Optional[ApiClient]', 'ApiClient | None', 'typing.Union[ApiClient, None]']) {
+      const source = `from api import ApiClient\n\ndef run(c: ${annotation} = None):\n    c.fetch()\n`;
+      const result = await fetchTarget(source);
+      expect(result![0].uri, annotation).toBe('file:///proj/api.py');
+    }
+  });
+
+  it('infers variables from annotations', async () => {
+    const source = 'import api\n\nclient: api.ApiClient = make()\nclient.fetch()\n';
+    expect((await fetchTarget(source))![0].uri).toBe('file:///proj/api.py');
+  });
+
+  it('infers from return annotations of resolved functions, across files', async () => {
+    const source = 'from api import connect\n\nconnect().fetch()\nclient = connect()\nclient.fetch()\n';
+    expect((await fetchTarget(source, 1))![0].range.startLineNumber).toBe(2);
+    expect((await fetchTarget(source, 2))![0].range.startLineNumber).toBe(2);
+  });
+
+  it('infers attributes assigned in __init__', async () => {
+    const source = [
+      'from api import ApiClient',
+      '',
+      'class Service:',
+      '    def __init__(self):',
+      '        self.client = None',
+      '',
+      '    def connect(self):',
+      '        self.client = ApiClient()',
+      '',
+      '    def run(self):',
+      '        self.client.fetch()',
+      ''
+    ].join('\n');
+    expect((await fetchTarget(source))![0].uri).toBe('file:///proj/api.py');
+  });
+
+  it('gives up when assignments disagree', async () => {
+    const source = [
+      'from api import ApiClient, Session',
+      '',
+      'if flag:',
+      '    thing = ApiClient()',
+      'else:',
+      '    thing = Session()',
+      'thing.fetch()',
+      ''
+    ].join('\n');
+    expect(await fetchTarget(source)).toBeNull();
+  });
+
+  it('gives up on unannotated parameters and unreadable bindings', async () => {
+    expect(await fetchTarget('def run(c):\n    c.fetch()\n')).toBeNull();
+    expect(await fetchTarget('from api import ApiClient\n\nfor c in [ApiClient()]:\n    c.fetch()\n')).toBeNull();
+    expect(await fetchTarget('a = b\nb = a\na.fetch()\n')).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — dotted module paths', () => {
+  const workspace = new FakeWorkspace({
+    'file:///proj/a/__init__.py': '',
+    'file:///proj/a/b/__init__.py': '',
+    'file:///proj/a/b/c.py': 'def func():\n    pass\n\nclass Thing:\n    def act(self):\n        pass\n',
+    'file:///proj/a/flat.py': 'VALUE = 1\n',
+    'file:///proj/a/b/sibling.py': 'def util():\n    pass\n'
+  });
+
+  it('navigates each segment of `import a.b.c` to its own module', async () => {
+    const source = 'import a.b.c\n';
+    expect((await definitionAt(source, 'a', 1, workspace))![0].uri).toBe('file:///proj/a/__init__.py');
+    expect((await definitionAt(source, 'b', 1, workspace))![0].uri).toBe('file:///proj/a/b/__init__.py');
+    expect((await definitionAt(source, 'c', 1, workspace))![0].uri).toBe('file:///proj/a/b/c.py');
+  });
+
+  it('navigates an import alias to the full module path', async () => {
+    const source = 'import a.b.c as abc\n';
+    expect((await definitionAt(source, 'abc', 1, workspace))![0].uri).toBe('file:///proj/a/b/c.py');
+  });
+
+  it('navigates each segment of a from-import module path, including relative ones', async () => {
+    const absolute = 'from a.b.c import func\n';
+    expect((await definitionAt(absolute, 'b', 1, workspace))![0].uri).toBe('file:///proj/a/b/__init__.py');
+    expect((await definitionAt(absolute, 'c', 1, workspace))![0].uri).toBe('file:///proj/a/b/c.py');
+
+    const relative = 'from ..b.sibling import util\n';
+    const fromUri = 'file:///proj/a/b/c.py';
+    expect((await definitionAt(relative, 'b', 1, workspace, fromUri))![0].uri).toBe('file:///proj/a/b/__init__.py');
+  });
+
+  it('binds `import a.b.c` usages of `a` to the top-level package', async () => {
+    const source = 'import a.b.c\n\na\n';
+    expect((await definitionAt(source, 'a', 2, workspace))![0].uri).toBe('file:///proj/a/__init__.py');
+  });
+
+  it('resolves fully qualified attribute chains segment by segment', async () => {
+    const source = 'import a.b.c\n\na.b.c.func()\na.flat.VALUE\na.b.c.Thing().act()\n';
+    expect((await definitionAt(source, 'b', 2, workspace))![0].uri).toBe('file:///proj/a/b/__init__.py');
+    expect((await definitionAt(source, 'c', 2, workspace))![0].uri).toBe('file:///proj/a/b/c.py');
+    expect((await definitionAt(source, 'func', 1, workspace))![0]).toMatchObject({
+      uri: 'file:///proj/a/b/c.py',
+      range: { startLineNumber: 1, startColumn: 5 }
+    });
+    expect((await definitionAt(source, 'flat', 1, workspace))![0].uri).toBe('file:///proj/a/flat.py');
+    expect((await definitionAt(source, 'VALUE', 1, workspace))![0].range.startLineNumber).toBe(1);
+    expect((await definitionAt(source, 'act', 1, workspace))![0].range.startLineNumber).toBe(5);
+  });
+});
+
+describe('PythonAnalyzer — modern syntax', () => {
+  it('binds match/case capture patterns', async () => {
+    const source = [
+      'def handle(command):',
+      '    match command:',
+      '        case Point(x=0, y=ypos) if ypos > 0:',
+      '            return ypos',
+      '        case [head, *tail]:',
+      '            return head, tail',
+      '        case {"key": found, **extra}:',
+      '            return found, extra',
+      '        case str() as text:',
+      '            return text',
+      ''
+    ].join('\n');
+    // Guards see the capture too.
+    expect((await definitionAt(source, 'ypos', 2))![0].range).toMatchObject({ startLineNumber: 3, startColumn: 27 });
+    expect((await definitionAt(source, 'ypos', 3))![0].range.startLineNumber).toBe(3);
+    expect((await definitionAt(source, 'head', 2))![0].range).toMatchObject({ startLineNumber: 5, startColumn: 15 });
+    expect((await definitionAt(source, 'tail', 2))![0].range).toMatchObject({ startLineNumber: 5, startColumn: 22 });
+    expect((await definitionAt(source, 'found', 2))![0].range.startLineNumber).toBe(7);
+    expect((await definitionAt(source, 'extra', 2))![0].range.startLineNumber).toBe(7);
+    expect((await definitionAt(source, 'text', 2))![0].range.startLineNumber).toBe(9);
+  });
+
+  it('treats class names, keywords and dotted value patterns as references, not captures', async () => {
+    const source = [
+      'class Point: pass',
+      'x = 1',
+      'match value:',
+      '    case Point(x=0):',
+      '        pass',
+      '    case Color.RED:',
+      '        pass',
+      '    case _:',
+      '        pass',
+      'Point',
+      'x',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'Point', 3))![0].range.startLineNumber).toBe(1);
+    expect((await definitionAt(source, 'x', 3))![0].range.startLineNumber).toBe(2);
+  });
+
+  it('binds PEP 695 type parameters of generic functions', async () => {
+    const source = 'T = 1\n\ndef first[T: (int, str)](items: list[T]) -> T:\n    value: T = items[0]\n    return value\n';
+    expect((await definitionAt(source, 'T', 4))![0].range).toMatchObject({ startLineNumber: 3, startColumn: 11 });
+    expect((await definitionAt(source, 'T', 5))![0].range.startLineNumber).toBe(3);
+  });
+
+  it('makes generic class type parameters visible to the body and its methods', async () => {
+    const source = [
+      'class Box[T, *Ts, **P](Base[T]):',
+      '    item: T',
+      '    def get(self) -> T:',
+      '        result: T = self.item',
+      '        return result',
+      ''
+    ].join('\n');
+    // occurrence 2 is inside `*Ts`
+    for (const occurrence of [3, 4, 5, 6]) {
+      expect((await definitionAt(source, 'T', occurrence))![0].range).toMatchObject({
+        startLineNumber: 1,
+        startColumn: 11
+      });
+    }
+    expect((await definitionAt(source, 'item', 2))![0].range.startLineNumber).toBe(2);
+  });
+
+  it('lets annotation scopes see class-level names that method bodies cannot', async () => {
+    const source = [
+      'Alias = 0',
+      'class C:',
+      '    Alias = int',
+      '    def m[T](self, x: Alias) -> T:',
+      '        return Alias',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'Alias', 3))![0].range.startLineNumber).toBe(3);
+    expect((await definitionAt(source, 'Alias', 4))![0].range.startLineNumber).toBe(1);
+  });
+
+  it('binds type aliases and their own type parameters', async () => {
+    const source = 'K = 0\ntype Pairs[K: str] = list[tuple[K, int]]\ntype Names = list[str]\nx: Pairs[str]\ny: Names\n';
+    expect((await definitionAt(source, 'K', 3))![0].range).toMatchObject({ startLineNumber: 2, startColumn: 12 });
+    expect((await definitionAt(source, 'Pairs', 2))![0].range).toMatchObject({ startLineNumber: 2, startColumn: 6 });
+    expect((await definitionAt(source, 'Names', 2))![0].range.startLineNumber).toBe(3);
+  });
+
+  it('binds except* group aliases', async () => {
+    const source = 'try:\n    pass\nexcept* ValueError as group:\n    print(group.exceptions)\n';
+    expect((await definitionAt(source, 'group', 2))![0].range).toMatchObject({ startLineNumber: 3, startColumn: 23 });
+  });
+});
+
+describe('PythonAnalyzer — stub files', () => {
+  const workspace = new FakeWorkspace({
+    'file:///proj/fast.py': 'def compute(x):\n    return x\n',
+    'file:///proj/fast.pyi': 'def compute(x: int) -> int: ...\n',
+    'file:///proj/proto/__init__.pyi': '',
+    'file:///proj/proto/service_pb2.pyi': 'class Request:\n    name: str\n',
+    'file:///proj/ext.pyi': 'class Handle:\n    def close(self) -> None: ...\n\ndef open_handle() -> Handle: ...\n'
+  });
+  const source = 'from fast import compute\ncompute(1)\n';
+
+  it('lands in the implementation by default', async () => {
+    expect(await definitionAt(source, 'compute', 2, workspace)).toEqual([
+      {
+        uri: 'file:///proj/fast.py',
+        range: { startLineNumber: 1, startColumn: 5, endLineNumber: 1, endColumn: 12 }
+      }
+    ]);
+  });
+
+  it('lands in the stub or both, as configured', async () => {
+    const doc = { uri: 'file:///proj/main.py', getValue: () => source };
+    const position = positionOf(source, 'compute', 2);
+
+    const stubFirst = new PythonAnalyzer({ stubs: 'stub' });
+    const stubResult = await stubFirst.provideDefinition(doc, position, workspace);
+    expect(stubResult!.map(location => location.uri)).toEqual(['file:///proj/fast.pyi']);
+
+    const both = new PythonAnalyzer({ stubs: 'both' });
+    const bothResult = await both.provideDefinition(doc, position, workspace);
+    expect(bothResult!.map(location => location.uri)).toEqual(['file:///proj/fast.py', 'file:///proj/fast.pyi']);
+
+    stubFirst.dispose();
+    both.dispose();
+  });
+
+  it('falls back to stubs for stub-only modules and packages', async () => {
+    const source = [
+      'from proto import service_pb2',
+      'from ext import open_handle',
+      'service_pb2.Request',
+      'open_handle().close()',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'proto', 1, workspace))![0].uri).toBe('file:///proj/proto/__init__.pyi');
+    expect((await definitionAt(source, 'Request', 1, workspace))![0]).toMatchObject({
+      uri: 'file:///proj/proto/service_pb2.pyi',
+      range: { startLineNumber: 1, startColumn: 7 }
+    });
+    // Return annotations in stubs drive attribute inference too.
+    expect((await definitionAt(source, 'close', 1, workspace))![0]).toMatchObject({
+      uri: 'file:///proj/ext.pyi',
+      range: { startLineNumber: 2 }
+    });
+  });
+
+  it('returns a single location under `both` when only one flavor exists', async () => {
+    const both = new PythonAnalyzer({ stubs: 'both' });
+    const source = 'from ext import Handle\nHandle\n';
+    const doc = { uri: 'file:///proj/main.py', getValue: () => source };
+    const result = await both.provideDefinition(doc, positionOf(source, 'Handle', 2), workspace);
+    expect(result).toHaveLength(1);
+    both.dispose();
+  });
+});
+
+describe('PythonAnalyzer — keyword arguments', () => {
+  it('resolves a keyword argument to the parameter of a local function', async () => {
+    const source = [
+      'timeout = 30',
+      'def connect(host, *, timeout=10, **options):',
+      '    pass',
+      'connect("db", timeout=5)',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'timeout', 3))![0].range).toMatchObject({
+      startLineNumber: 2,
+      startColumn: 22
+    });
+  });
+
+  it('resolves to the parameter of a class __init__, inherited ones included', async () => {
+    const source = [
+      'class Base:',
+      '    def __init__(self, name, retries=3):',
+      '        pass',
+      'class Client(Base):',
+      '    pass',
+      'class Server(Base):',
+      '    def __init__(self, port):',
+      '        super().__init__(name="server", retries=1)',
+      'Client(name="c", retries=2)',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'retries', 3))![0].range).toMatchObject({
+      startLineNumber: 2,
+      startColumn: 30
+    });
+    expect((await definitionAt(source, 'name', 2))![0].range.startLineNumber).toBe(2);
+  });
+
+  it('resolves through methods and instances with __call__', async () => {
+    const source = [
+      'class Handler:',
+      '    def handle(self, event, urgent=False):',
+      '        pass',
+      '    def __call__(self, payload):',
+      '        pass',
+      'h = Handler()',
+      'h.handle(event=1, urgent=True)',
+      'h(payload={})',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'urgent', 2))![0].range.startLineNumber).toBe(2);
+    expect((await definitionAt(source, 'payload', 2))![0].range.startLineNumber).toBe(4);
+  });
+
+  it('resolves to parameters of imported callees across files', async () => {
+    const workspace = new FakeWorkspace({
+      'file:///proj/db.py': 'def connect(host, timeout=10):\n    pass\n\nclass Pool:\n    def __init__(self, size):\n        pass\n',
+      'file:///proj/facade.py': 'from .db import connect, Pool\n'
+    });
+    const source = 'import db\nfrom facade import connect, Pool\n\ndb.connect(timeout=1)\nconnect(timeout=2)\nPool(size=4)\n';
+    for (const occurrence of [1, 2]) {
+      expect((await definitionAt(source, 'timeout', occurrence, workspace))![0]).toMatchObject({
+        uri: 'file:///proj/db.py',
+        range: { startLineNumber: 1, startColumn: 19 }
+      });
+    }
+    expect((await definitionAt(source, 'size', 1, workspace))![0]).toMatchObject({
+      uri: 'file:///proj/db.py',
+      range: { startLineNumber: 5 }
+    });
+  });
+
+  it('does not fall back to a same-named variable when the parameter is unknown', async () => {
+    const source = 'timeout = 30\ndef f(**kwargs):\n    pass\nf(timeout=1)\nunknown(timeout=2)\n';
+    expect(await definitionAt(source, 'timeout', 2)).toBeNull();
+    expect(await definitionAt(source, 'timeout', 3)).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — field-based classes', () => {
+  it('navigates dataclass fields from attribute access and constructor keywords', async () => {
+    const source = [
+      'from dataclasses import dataclass, field',
+      '@dataclass(frozen=True)',
+      'class Point:',
+      '    x: int',
+      '    y: int = 0',
+      '    tags: list[str] = field(default_factory=list)',
+      'p = Point(x=1, tags=[])',
+      'p.x',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'x', 2))![0].range).toMatchObject({ startLineNumber: 4, startColumn: 5 });
+    expect((await definitionAt(source, 'tags', 2))![0].range.startLineNumber).toBe(6);
+    expect((await definitionAt(source, 'x', 3))![0].range.startLineNumber).toBe(4);
+  });
+
+  it('finds inherited fields and fields of NamedTuple, TypedDict, attrs and pydantic classes', async () => {
+    const source = [
+      'import attrs',
+      'from typing import NamedTuple, TypedDict',
+      'from pydantic import BaseModel',
+      'class Pair(NamedTuple):',
+      '    left: int',
+      'class Movie(TypedDict):',
+      '    title: str',
+      '@attrs.define',
+      'class Job:',
+      '    name: str',
+      'class User(BaseModel):',
+      '    email: str',
+      'class Admin(User):',
+      '    level: int',
+      'Pair(left=1)',
+      'Movie(title="x")',
+      'Job(name="j")',
+      'Admin(email="a", level=2)',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'left', 2))![0].range.startLineNumber).toBe(5);
+    expect((await definitionAt(source, 'title', 2))![0].range.startLineNumber).toBe(7);
+    expect((await definitionAt(source, 'name', 2))![0].range.startLineNumber).toBe(10);
+    expect((await definitionAt(source, 'email', 2))![0].range.startLineNumber).toBe(12);
+    expect((await definitionAt(source, 'level', 2))![0].range.startLineNumber).toBe(14);
+  });
+
+  it('prefers an explicit __init__ over fields', async () => {
+    const source = [
+      'from dataclasses import dataclass',
+      '@dataclass',
+      'class Base:',
+      '    size: int',
+      'class Custom(Base):',
+      '    def __init__(self, size):',
+      '        pass',
+      'Custom(size=1)',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'size', 3))![0].range.startLineNumber).toBe(6);
+  });
+
+  it('navigates enum members, which are instances of their class', async () => {
+    const workspace = new FakeWorkspace({
+      'file:///proj/colors.py': [
+        'from enum import Enum',
+        'class Color(Enum):',
+        '    RED = 1',
+        '    GREEN = 2',
+        '    def label(self):',
+        '        return self.name',
+        ''
+      ].join('\n')
+    });
+    const source = 'from colors import Color\nColor.RED\nColor.GREEN.label()\n';
+    expect((await definitionAt(source, 'RED', 1, workspace))![0]).toMatchObject({
+      uri: 'file:///proj/colors.py',
+      range: { startLineNumber: 3, startColumn: 5 }
+    });
+    expect((await definitionAt(source, 'label', 1, workspace))![0].range.startLineNumber).toBe(5);
+  });
+});
+
+describe('PythonAnalyzer — string annotations', () => {
+  const workspace = new FakeWorkspace({
+    'file:///proj/models.py': 'class Order:\n    def total(self):\n        pass\n\nclass Item:\n    pass\n'
+  });
+
+  it('resolves names inside forward-reference annotations', async () => {
+    const source = [
+      'def ship(order: "Order", extra: "Optional[list[Item]]" = None) -> "Item":',
+      '    pass',
+      'class Order:',
+      '    pass',
+      'class Item:',
+      '    pass',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'Order', 1))![0].range).toMatchObject({ startLineNumber: 3, startColumn: 7 });
+    expect((await definitionAt(source, 'Item', 1))![0].range.startLineNumber).toBe(5);
+    expect((await definitionAt(source, 'Item', 2))![0].range.startLineNumber).toBe(5);
+    // Strings outside annotations stay inert.
+    expect(await definitionAt('class Order: pass\nname = "Order"\n', 'Order', 2)).toBeNull();
+  });
+
+  it('resolves TYPE_CHECKING imports used in string annotations, across files', async () => {
+    const source = [
+      'from typing import TYPE_CHECKING',
+      'if TYPE_CHECKING:',
+      '    import models',
+      '    from models import Order',
+      '',
+      'def ship(order: "Order", backup: "models.Order") -> None:',
+      '    order.total()',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'Order', 2, workspace))![0]).toMatchObject({
+      uri: 'file:///proj/models.py',
+      range: { startLineNumber: 1, startColumn: 7 }
+    });
+    expect((await definitionAt(source, 'Order', 3, workspace))![0].uri).toBe('file:///proj/models.py');
+    expect((await definitionAt(source, 'models', 2, workspace))![0].uri).toBe('file:///proj/models.py');
+    // The quoted annotation drives inference too.
+    expect((await definitionAt(source, 'total', 1, workspace))![0]).toMatchObject({
+      uri: 'file:///proj/models.py',
+      range: { startLineNumber: 2 }
+    });
+  });
+});
+
+describe('PythonAnalyzer — conditional definitions', () => {
+  it('returns both imports of a try/except ImportError fallback', async () => {
+    const workspace = new FakeWorkspace({
+      'file:///proj/fastjson.py': 'def dumps(obj):\n    pass\n',
+      'file:///proj/slowjson.py': 'def dumps(obj):\n    pass\n'
+    });
+    const source = [
+      'try:',
+      '    import fastjson as json',
+      'except ImportError:',
+      '    import slowjson as json',
+      'json.dumps',
+      'json',
+      ''
+    ].join('\n');
+    const result = await definitionAt(source, 'json', 6, workspace);
+    expect(result!.map(location => location.uri)).toEqual(['file:///proj/fastjson.py', 'file:///proj/slowjson.py']);
+  });
+
+  it('returns every if/elif/else definition but not shadowed ones', async () => {
+    const source = [
+      'import sys',
+      'def clear(): pass',
+      'if sys.platform == "win32":',
+      '    def clear(): pass',
+      'elif sys.platform == "darwin":',
+      '    def clear(): pass',
+      'else:',
+      '    clear = None',
+      'clear()',
+      ''
+    ].join('\n');
+    const result = await definitionAt(source, 'clear', 5);
+    expect(result!.map(location => location.range.startLineNumber)).toEqual([4, 6, 8]);
+  });
+
+  it('returns every alternative of a conditional definition in another module', async () => {
+    const workspace = new FakeWorkspace({
+      'file:///proj/fastjson.py': 'def dumps(obj):\n    pass\n',
+      'file:///proj/slowjson.py': 'def dumps(obj):\n    pass\n',
+      'file:///proj/compat.py': [
+        'import sys',
+        'try:',
+        '    import fastjson as json',
+        'except ImportError:',
+        '    import slowjson as json',
+        'if sys.platform == "win32":',
+        '    def clear(): pass',
+        'else:',
+        '    def clear(): pass',
+        ''
+      ].join('\n'),
+      'file:///proj/facade.py': 'from compat import clear\n'
+    });
+    const source = [
+      'from compat import json',
+      'from facade import clear',
+      'import compat',
+      'json',
+      'compat.clear',
+      ''
+    ].join('\n');
+    const lines = (result: DefinitionLocation[] | null) =>
+      result!.map(location => `${location.uri.replace('file:///proj/', '')}:${location.range.startLineNumber}`);
+
+    expect(lines(await definitionAt(source, 'json', 2, workspace))).toEqual(['fastjson.py:1', 'slowjson.py:1']);
+    expect(lines(await definitionAt(source, 'clear', 1, workspace))).toEqual(['compat.py:7', 'compat.py:9']);
+    expect(lines(await definitionAt(source, 'clear', 2, workspace))).toEqual(['compat.py:7', 'compat.py:9']);
+  });
+
+  it('keeps a single result for sequential rebinding and same-branch references', async () => {
+    const source = [
+      'if flag:',
+      '    value = 1',
+      '    print(value)',
+      'else:',
+      '    value = 2',
+      'value = 3',
+      'value',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'value', 2))!.map(location => location.range.startLineNumber)).toEqual([2]);
+    expect((await definitionAt(source, 'value', 5))!.map(location => location.range.startLineNumber)).toEqual([6]);
+  });
+
+  it('treats match cases as alternatives, but not a try body and its else', async () => {
+    const source = [
+      'match mode:',
+      '    case "a":',
+      '        handler = 1',
+      '    case _:',
+      '        handler = 2',
+      'try:',
+      '    result = 1',
+      'except ValueError:',
+      '    result = 2',
+      'else:',
+      '    result = 3',
+      'handler, result',
+      ''
+    ].join('\n');
+    expect((await definitionAt(source, 'handler', 3))!.map(location => location.range.startLineNumber)).toEqual([3, 5]);
+    // `else` only runs after the body, so the body's binding is shadowed; the handler's is not.
+    expect((await definitionAt(source, 'result', 4))!.map(location => location.range.startLineNumber)).toEqual([9, 11]);
+  });
+});
+
+describe('PythonAnalyzer — references', () => {
+  async function referencesAt(
+    files: Record<string, string>,
+    uri: string,
+    needle: string,
+    occurrence = 1,
+    includeDeclaration = true
+  ): Promise<string[]> {
+    const source = files[uri];
+    const doc = { uri, getValue: () => source };
+    const result = await analyzer.provideReferences(
+      doc,
+      positionOf(source, needle, occurrence),
+      new FakeWorkspace(files),
+      { includeDeclaration }
+    );
+    return (result ?? []).map(
+      location => `${location.uri.replace('file:///proj/', '')}:${location.range.startLineNumber}:${location.range.startColumn}`
+    );
+  }
+
+  it('skips shadowed locals of the same name', async () => {
+    const files = {
+      'file:///proj/main.py': [
+        'value = 1',
+        'def f():',
+        '    value = 2',
+        '    return value',
+        'def g():',
+        '    return value',
+        'value += 1'
+      ].join('\n')
+    };
+    expect(await referencesAt(files, 'file:///proj/main.py', 'value', 4)).toEqual([
+      'main.py:1:1',
+      'main.py:6:12',
+      'main.py:7:1'
+    ]);
+    expect(await referencesAt(files, 'file:///proj/main.py', 'value', 3)).toEqual(['main.py:3:5', 'main.py:4:12']);
+  });
+
+  it('finds importers across files, aliases included', async () => {
+    const files = {
+      'file:///proj/shapes.py': 'class Circle:\n    def area(self): pass\n',
+      'file:///proj/main.py': [
+        'from shapes import Circle',
+        'from shapes import Circle as Round',
+        'c = Circle()',
+        'r = Round()',
+        'def Circle_(): pass'
+      ].join('\n'),
+      'file:///proj/other.py': 'import shapes\nshapes.Circle().area()\nCircle = None\n'
+    };
+    expect(await referencesAt(files, 'file:///proj/main.py', 'Circle', 3)).toEqual([
+      'shapes.py:1:7',
+      'main.py:1:20',
+      'main.py:2:20',
+      'main.py:2:30',
+      'main.py:3:5',
+      'main.py:4:5',
+      'other.py:2:8'
+    ]);
+  });
+
+  it('finds methods through self, instances and subclasses, optionally without the declaration', async () => {
+    const files = {
+      'file:///proj/main.py': [
+        'class Base:',
+        '    def run(self):',
+        '        self.run()',
+        'class Child(Base):',
+        '    pass',
+        'Child().run()',
+        'def run(): pass',
+        'run()'
+      ].join('\n')
+    };
+    expect(await referencesAt(files, 'file:///proj/main.py', 'run', 1, false)).toEqual([
+      'main.py:3:14',
+      'main.py:6:9'
+    ]);
+  });
+
+  it('returns null for unresolvable names', async () => {
+    const source = 'print(missing)\n';
+    const doc = { uri: 'file:///proj/main.py', getValue: () => source };
+    const result = await analyzer.provideReferences(doc, positionOf(source, 'missing'), EMPTY_WORKSPACE, {
+      includeDeclaration: true
+    });
+    expect(result).toBeNull();
+  });
+
+  it('finds references through dotted module chains and facade packages', async () => {
+    const files = {
+      'file:///proj/a/__init__.py': '',
+      'file:///proj/a/b/__init__.py': '',
+      'file:///proj/a/b/c.py': 'def func(): pass\n',
+      'file:///proj/pkg/__init__.py': 'from .impl import Widget\n',
+      'file:///proj/pkg/impl.py': 'class Widget: pass\n',
+      'file:///proj/main.py': 'import a.b.c\nimport pkg\na.b.c.func()\npkg.Widget()\n'
+    };
+    expect(await referencesAt(files, 'file:///proj/a/b/c.py', 'func')).toEqual(['a/b/c.py:1:5', 'main.py:3:7']);
+    expect(await referencesAt(files, 'file:///proj/pkg/impl.py', 'Widget')).toEqual([
+      'pkg/__init__.py:1:19',
+      'pkg/impl.py:1:7',
+      'main.py:4:5'
+    ]);
+  });
+
+  it('stops when the request is cancelled', async () => {
+    const files = {
+      'file:///proj/shapes.py': 'class Circle: pass\n',
+      'file:///proj/main.py': 'from shapes import Circle\nCircle()\n'
+    };
+    const source = files['file:///proj/shapes.py'];
+    const doc = { uri: 'file:///proj/shapes.py', getValue: () => source };
+    const result = await analyzer.provideReferences(
+      doc,
+      positionOf(source, 'Circle'),
+      new FakeWorkspace(files),
+      { includeDeclaration: true },
+      { isCancellationRequested: true }
+    );
+    expect(result).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — rename', () => {
+  async function renameAt(
+    files: Record<string, string>,
+    uri: string,
+    needle: string,
+    occurrence: number,
+    newName: string
+  ): Promise<string[] | string | null> {
+    const source = files[uri];
+    const doc = { uri, getValue: () => source };
+    const result = await analyzer.provideRenameEdits(
+      doc,
+      positionOf(source, needle, occurrence),
+      newName,
+      new FakeWorkspace(files)
+    );
+    if (!result || 'rejectReason' in result) return result && result.rejectReason;
+    return result.map(
+      edit => `${edit.uri.replace('file:///proj/', '')}:${edit.range.startLineNumber}:${edit.range.startColumn}`
+    );
+  }
+
+  it('renames through a facade package and its attribute users', async () => {
+    const files = {
+      'file:///proj/pkg/__init__.py': 'from .impl import Widget\n',
+      'file:///proj/pkg/impl.py': 'class Widget: pass\n',
+      'file:///proj/main.py': 'import pkg\npkg.Widget()\n'
+    };
+    expect(await renameAt(files, 'file:///proj/pkg/impl.py', 'Widget', 1, 'Gadget')).toEqual([
+      'pkg/__init__.py:1:19',
+      'pkg/impl.py:1:7',
+      'main.py:2:5'
+    ]);
+  });
+
+  it('renames a definition, its importers and __all__, leaving aliases alone', async () => {
+    const files = {
+      'file:///proj/geo.py': '__all__ = ["area", "other"]\ndef area(r):\n    return r\n',
+      'file:///proj/main.py': [
+        'from geo import area',
+        'from geo import area as surface',
+        'area(1)',
+        'surface(2)'
+      ].join('\n')
+    };
+    expect(await renameAt(files, 'file:///proj/main.py', 'area', 3, 'size')).toEqual([
+      'geo.py:2:5',
+      'main.py:1:17',
+      'main.py:2:17',
+      'main.py:3:1',
+      'geo.py:1:13'
+    ]);
+  });
+
+  it('renames an import alias only within its module', async () => {
+    const files = {
+      'file:///proj/geo.py': 'def area(r): pass\n',
+      'file:///proj/main.py': 'from geo import area as surface\nsurface(2)\ndef f(surface): return surface\n'
+    };
+    expect(await renameAt(files, 'file:///proj/main.py', 'surface', 2, 'measure')).toEqual([
+      'main.py:1:25',
+      'main.py:2:1'
+    ]);
+  });
+
+  it('honours shadowing, global and class-scope rules', async () => {
+    const files = {
+      'file:///proj/main.py': [
+        'count = 0',
+        'def bump():',
+        '    global count',
+        '    count += 1',
+        'def local():',
+        '    count = 5',
+        '    return count',
+        'class Counter:',
+        '    count = 1',
+        '    def read(self):',
+        '        return count'
+      ].join('\n')
+    };
+    expect(await renameAt(files, 'file:///proj/main.py', 'count', 1, 'total')).toEqual([
+      'main.py:1:1',
+      'main.py:3:12',
+      'main.py:4:5',
+      'main.py:11:16'
+    ]);
+  });
+
+  it('rejects invalid identifiers, collisions and captured references', async () => {
+    const files = {
+      'file:///proj/main.py': [
+        'limit = 1',
+        'size = 2',
+        'def f():',
+        '    width = 3',
+        '    return limit + width'
+      ].join('\n')
+    };
+    const uri = 'file:///proj/main.py';
+    expect(await renameAt(files, uri, 'limit', 1, '2fast')).toMatch(/not a valid Python identifier/);
+    expect(await renameAt(files, uri, 'limit', 1, 'class')).toMatch(/not a valid Python identifier/);
+    expect(await renameAt(files, uri, 'limit', 1, 'size')).toMatch(/already defined/);
+    expect(await renameAt(files, uri, 'limit', 1, 'width')).toMatch(/shadowed/);
+    expect(await renameAt(files, uri, 'limit', 1, 'cap')).toEqual(['main.py:1:1', 'main.py:5:12']);
+  });
+
+  it('refuses to rename modules', async () => {
+    const files = { 'file:///proj/geo.py': '', 'file:///proj/main.py': 'import geo\ngeo\n' };
+    expect(await renameAt(files, 'file:///proj/main.py', 'geo', 2, 'geometry')).toMatch(/Modules/);
+  });
+});
+
+describe('PythonAnalyzer — document highlights', () => {
+  async function highlightsAt(source: string, needle: string, occurrence = 1): Promise<string[] | null> {
+    const doc = { uri: 'file:///proj/main.py', getValue: () => source };
+    const result = await analyzer.provideDocumentHighlights(
+      doc,
+      positionOf(source, needle, occurrence),
+      EMPTY_WORKSPACE
+    );
+    return result && result.map(h => `${h.range.startLineNumber}:${h.range.startColumn}:${h.kind}`);
+  }
+
+  it('skips a shadowing local of the same name', async () => {
+    const source = [
+      'value = 1',
+      'def f(value):',
+      '    return value',
+      'print(value)'
+    ].join('\n');
+    expect(await highlightsAt(source, 'value', 4)).toEqual(['1:1:write', '4:7:read']);
+    expect(await highlightsAt(source, 'value', 3)).toEqual(['2:7:write', '3:12:read']);
+  });
+
+  it('marks imports and assignments as writes', async () => {
+    const source = 'import os\nos = os.getcwd() if os else None\n';
+    expect(await highlightsAt(source, 'os', 3)).toEqual(['1:8:write', '2:1:write', '2:6:read', '2:21:read']);
+  });
+
+  it('groups self members with the class attribute they refine', async () => {
+    const source = [
+      'class Counter:',
+      '    count = 0',
+      '    def bump(self):',
+      '        self.count += 1',
+      '        return self.count',
+      'class Other:',
+      '    def reset(self):',
+      '        self.count = 0'
+    ].join('\n');
+    expect(await highlightsAt(source, 'count', 3)).toEqual(['2:5:write', '4:14:write', '5:21:read']);
+  });
+
+  it('matches attributes through the symbol of their object', async () => {
+    const source = 'import cfg\ncfg.debug = True\nif cfg.debug:\n    debug = 1\n';
+    expect(await highlightsAt(source, 'debug', 2)).toEqual(['2:5:read', '3:8:read']);
+  });
+
+  it('returns null away from identifiers', async () => {
+    expect(await highlightsAt('x = 1\n', '1')).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — hover', () => {
+  async function hoverAt(
+    files: Record<string, string>,
+    needle: string,
+    occurrence = 1,
+    uri = 'file:///proj/main.py'
+  ): Promise<string[] | null> {
+    const source = files[uri];
+    const doc = { uri, getValue: () => source };
+    const hover = await analyzer.provideHover(doc, positionOf(source, needle, occurrence), new FakeWorkspace(files));
+    return hover && hover.contents;
+  }
+
+  it('shows an imported function signature, docstring and module', async () => {
+    const files = {
+      'file:///proj/geo.py': [
+        'async def area(',
+        '    radius: float,  # metres',
+        '    *, precise: bool = False,',
+        ') -> float:',
+        '    """Area of a circle.',
+        '',
+        '    Notes:',
+        '        Uses **pi**.',
+        '    """',
+        '    return radius'
+      ].join('\n'),
+      'file:///proj/main.py': 'from geo import area\narea(1)\n'
+    };
+    expect(await hoverAt(files, 'area', 2)).toEqual([
+      [
+        '```python',
+        'async def area(radius: float, *, precise: bool = False) -> float',
+        '```',
+        '',
+        'Area of a circle.',
+        '',
+        'Notes:',
+        '    Uses **pi**.',
+        '',
+        'Defined in `geo`'
+      ].join('\n')
+    ]);
+  });
+
+  it('shows classes with their bases and type parameters', async () => {
+    const source = 'class Box[T](Base, metaclass=Meta):\n    pass\nBox()\n';
+    expect(await hoverAt({ 'file:///proj/main.py': source }, 'Box', 2)).toEqual([
+      '```python\nclass Box[T](Base, metaclass=Meta)\n```\n\nDefined in `main`'
+    ]);
+  });
+
+  it('shows annotated names and parameters', async () => {
+    const source = 'limit: int = 3\ndef f(count: int = 1):\n    return count + limit\n';
+    const files = { 'file:///proj/main.py': source };
+    expect(await hoverAt(files, 'count', 2)).toEqual([
+      '```python\n(parameter) count: int\n```\n\nDefined in `main`'
+    ]);
+    expect(await hoverAt(files, 'limit', 2)).toEqual([
+      '```python\n(variable) limit: int\n```\n\nDefined in `main`'
+    ]);
+  });
+
+  it('describes modules with their docstring', async () => {
+    const files = {
+      'file:///proj/pkg/__init__.py': '"""Shared helpers."""\n',
+      'file:///proj/main.py': 'import pkg\n'
+    };
+    expect(await hoverAt(files, 'pkg')).toEqual(['```python\nmodule pkg\n```\n\nShared helpers.']);
+  });
+
+  it('lists every candidate of a conditional definition', async () => {
+    const source = 'if fast:\n    def run(): "Quick."\nelse:\n    def run(n): pass\nrun()\n';
+    expect(await hoverAt({ 'file:///proj/main.py': source }, 'run', 3)).toEqual([
+      '```python\ndef run()\n```\n\nQuick.\n\nDefined in `main`',
+      '```python\ndef run(n)\n```\n\nDefined in `main`'
+    ]);
+  });
+
+  it('returns null for unresolved names', async () => {
+    expect(await hoverAt({ 'file:///proj/main.py': 'print(missing)\n' }, 'missing')).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — document symbols', () => {
+  type Outline = Array<string | [string, Outline]>;
+
+  function outline(symbols: DocumentSymbol[]): Outline {
+    return symbols.map(symbol => {
+      const label = `${symbol.kind} ${symbol.name} ${symbol.range.startLineNumber}-${symbol.range.endLineNumber}`;
+      return symbol.children.length > 0 ? [label, outline(symbol.children)] : label;
+    });
+  }
+
+  async function symbolsOf(source: string): Promise<Outline | null> {
+    const symbols = await analyzer.provideDocumentSymbols(
+      { uri: 'file:///proj/main.py', getValue: () => source },
+      EMPTY_WORKSPACE
+    );
+    return symbols && outline(symbols);
+  }
+
+  it('nests methods and attributes under their class', async () => {
+    const source = [
+      'import os',
+      'MAX_SIZE = 10',
+      'cache = {}',
+      'cache = None',
+      '',
+      '@dataclass',
+      'class Store(Base):',
+      '    kind = "disk"',
+      '    def __init__(self, path):',
+      '        self.path = path',
+      '        local = 1',
+      '    @property',
+      '    def size(self):',
+      '        def measure():',
+      '            pass',
+      '        return measure()',
+      '    def reset(self):',
+      '        self.path = None',
+      '        self.dirty = True'
+    ].join('\n');
+    expect(await symbolsOf(source)).toEqual([
+      'constant MAX_SIZE 2-2',
+      'variable cache 3-3',
+      [
+        'class Store 6-19',
+        [
+          'field kind 8-8',
+          'constructor __init__ 9-11',
+          'field path 10-10',
+          ['property size 12-16', ['function measure 14-15']],
+          'method reset 17-19',
+          'field dirty 19-19'
+        ]
+      ]
+    ]);
+  });
+
+  it('marks enum classes and their members', async () => {
+    const source = 'class Color(Enum):\n    RED = 1\n    GREEN = 2\n';
+    expect(await symbolsOf(source)).toEqual([['enum Color 1-3', ['enumMember RED 2-2', 'enumMember GREEN 3-3']]]);
+  });
+
+  it('lists each branch of a conditional definition', async () => {
+    const source = 'if fast:\n    def run(): pass\nelse:\n    def run(n): pass\n';
+    expect(await symbolsOf(source)).toEqual(['function run 2-2', 'function run 4-4']);
+  });
+
+  it('selects the name within the full definition range', async () => {
+    const symbols = await analyzer.provideDocumentSymbols(
+      { uri: 'file:///proj/main.py', getValue: () => '@cached\ndef load(path):\n    return path\n' },
+      EMPTY_WORKSPACE
+    );
+    expect(symbols?.[0].range).toEqual({ startLineNumber: 1, startColumn: 1, endLineNumber: 3, endColumn: 16 });
+    expect(symbols?.[0].selectionRange).toEqual({ startLineNumber: 2, startColumn: 5, endLineNumber: 2, endColumn: 9 });
+  });
+});
+
+describe('PythonAnalyzer — type definitions', () => {
+  async function typeDefinitionAt(
+    files: Record<string, string>,
+    needle: string,
+    occurrence = 1,
+    uri = 'file:///proj/main.py'
+  ): Promise<string[] | null> {
+    const source = files[uri];
+    const doc = { uri, getValue: () => source };
+    const result = await analyzer.provideTypeDefinition(
+      doc,
+      positionOf(source, needle, occurrence),
+      new FakeWorkspace(files)
+    );
+    return result && result.map(l => `${l.uri.replace('file:///proj/', '')}:${l.range.startLineNumber}`);
+  }
+
+  const models = 'class Order:\n    pass\nclass Customer:\n    pass\n';
+
+  it('lands on the annotated class of a parameter, across files', async () => {
+    const files = {
+      'file:///proj/models.py': models,
+      'file:///proj/main.py': 'from models import Order\ndef ship(order: Order):\n    return order\n'
+    };
+    expect(await typeDefinitionAt(files, 'order', 2)).toEqual(['models.py:1']);
+    expect(await typeDefinitionAt(files, 'order: Order')).toEqual(['models.py:1']);
+  });
+
+  it('unwraps Optional, unions with None and element containers', async () => {
+    const source = [
+      'from typing import Optional, Sequence',
+      'from models import Order, Customer',
+      'a: Optional[Order] = None',
+      'b: list[Customer] = []',
+      'c: Sequence["Order"] | None = None',
+      'd: tuple[Customer, ...] = ()',
+      'e: dict[str, Order] = {}',
+      'print(a, b, c, d, e)'
+    ].join('\n');
+    const files = { 'file:///proj/models.py': models, 'file:///proj/main.py': source };
+    expect(await typeDefinitionAt(files, 'a, b')).toEqual(['models.py:1']);
+    expect(await typeDefinitionAt(files, 'b: list')).toEqual(['models.py:3']);
+    expect(await typeDefinitionAt(files, 'c, d')).toEqual(['models.py:1']);
+    expect(await typeDefinitionAt(files, 'd, e')).toEqual(['models.py:3']);
+    expect(await typeDefinitionAt(files, 'e)')).toBeNull();
+  });
+
+  it('infers constructor calls, attributes and return annotations', async () => {
+    const source = [
+      'from models import Order, Customer',
+      'def load() -> Optional[Customer]: ...',
+      'class Cart:',
+      '    def __init__(self):',
+      '        self.order = Order()',
+      'cart = Cart()',
+      'who = load()',
+      'print(cart.order, who, load)'
+    ].join('\n');
+    const files = { 'file:///proj/models.py': models, 'file:///proj/main.py': source };
+    expect(await typeDefinitionAt(files, 'order', 2)).toEqual(['models.py:1']);
+    expect(await typeDefinitionAt(files, 'cart', 2)).toEqual(['main.py:3']);
+    expect(await typeDefinitionAt(files, 'who', 2)).toEqual(['models.py:3']);
+    expect(await typeDefinitionAt(files, 'load)')).toEqual(['models.py:3']);
+    expect(await typeDefinitionAt(files, 'self', 2)).toEqual(['main.py:3']);
+  });
+
+  it('returns null when the type is unknown', async () => {
+    const source = 'def f(x):\n    return x\n';
+    expect(await typeDefinitionAt({ 'file:///proj/main.py': source }, 'x', 2)).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — implementations', () => {
+  async function implementationsAt(
+    files: Record<string, string>,
+    needle: string,
+    occurrence = 1,
+    uri = 'file:///proj/base.py'
+  ): Promise<string[] | null> {
+    const source = files[uri];
+    const doc = { uri, getValue: () => source };
+    const result = await analyzer.provideImplementation(
+      doc,
+      positionOf(source, needle, occurrence),
+      new FakeWorkspace(files)
+    );
+    return result && result.map(l => `${l.uri.replace('file:///proj/', '')}:${l.range.startLineNumber}`);
+  }
+
+  const base = [
+    'from abc import ABC, abstractmethod',
+    'class Plugin(ABC):',
+    '    @abstractmethod',
+    '    def run(self): ...',
+    '    def name(self):',
+    '        return "plugin"'
+  ].join('\n');
+
+  it('lists overrides of an abstract method in subclasses across files', async () => {
+    const files = {
+      'file:///proj/base.py': base,
+      'file:///proj/plugins/csv.py': 'from base import Plugin\nclass Csv(Plugin):\n    def run(self): pass\n',
+      'file:///proj/plugins/json.py': [
+        'import base',
+        'class Json(base.Plugin):',
+        '    def name(self): return "json"',
+        'class PrettyJson(Json):',
+        '    def run(self): pass'
+      ].join('\n'),
+      'file:///proj/other.py': 'class Unrelated:\n    def run(self): pass\n'
+    };
+    expect(await implementationsAt(files, 'run')).toEqual(['plugins/csv.py:3', 'plugins/json.py:5']);
+    expect(await implementationsAt(files, 'name')).toEqual(['plugins/json.py:3']);
+    expect(await implementationsAt(files, 'Plugin(')).toEqual([
+      'plugins/csv.py:2',
+      'plugins/json.py:2',
+      'plugins/json.py:4'
+    ]);
+  });
+
+  it('starts from a call through an annotated instance', async () => {
+    const files = {
+      'file:///proj/base.py': base,
+      'file:///proj/impl.py': 'from base import Plugin\nclass Csv(Plugin):\n    def run(self): pass\n',
+      'file:///proj/main.py': 'from base import Plugin\ndef go(p: Plugin):\n    p.run()\n'
+    };
+    expect(await implementationsAt(files, 'run', 1, 'file:///proj/main.py')).toEqual(['impl.py:3']);
+  });
+
+  it('matches protocol implementations structurally and by inheritance', async () => {
+    const files = {
+      'file:///proj/base.py': [
+        'from typing import Protocol',
+        'class Sink(Protocol):',
+        '    def write(self, data): ...',
+        '    def close(self): ...'
+      ].join('\n'),
+      'file:///proj/sinks.py': [
+        'from base import Sink',
+        'class FileSink:',
+        '    def write(self, data): pass',
+        '    def close(self): pass',
+        'class HalfSink:',
+        '    def write(self, data): pass',
+        'class Explicit(Sink):',
+        '    def write(self, data): pass'
+      ].join('\n')
+    };
+    expect(await implementationsAt(files, 'write')).toEqual(['sinks.py:8', 'sinks.py:3']);
+  });
+
+  it('re-evaluates bases only in documents that changed', async () => {
+    const files: Record<string, string> = {
+      'file:///proj/base.py': base,
+      'file:///proj/impl.py': 'from base import Plugin\nclass Csv(Plugin):\n    def run(self): pass\n'
+    };
+    const workspace = new FakeWorkspace(files);
+    const resolveImport = vi.spyOn(workspace, 'resolveImport');
+    const fresh = new PythonAnalyzer();
+    const implementations = async () => {
+      const source = files['file:///proj/base.py'];
+      const doc = { uri: 'file:///proj/base.py', getValue: () => source };
+      const result = await fresh.provideImplementation(doc, positionOf(source, 'run'), workspace);
+      return result && result.map(l => `${l.uri.replace('file:///proj/', '')}:${l.range.startLineNumber}`);
+    };
+
+    expect(await implementations()).toEqual(['impl.py:3']);
+    resolveImport.mockClear();
+    expect(await implementations()).toEqual(['impl.py:3']);
+    expect(resolveImport).not.toHaveBeenCalled();
+
+    files['file:///proj/extra.py'] = 'from base import Plugin\nclass Tsv(Plugin):\n    def run(self): pass\n';
+    expect(await implementations()).toEqual(['impl.py:3', 'extra.py:3']);
+    // base.py's unresolved `ABC` is retried now that documents changed; impl.py is reused.
+    const importers = new Set(resolveImport.mock.calls.map(([, fromUri]) => fromUri));
+    expect([...importers].sort()).toEqual(['file:///proj/base.py', 'file:///proj/extra.py']);
+
+    // Moving the base class invalidates the keys its subclasses resolved to.
+    files['file:///proj/base.py'] = `\n\n${base}`;
+    expect(await implementations()).toEqual(['impl.py:3', 'extra.py:3']);
+  });
+
+  it('follows re-exports and bases that appear after indexing', async () => {
+    const baseClass = 'class Base:\n    def run(self): pass\n';
+    const files: Record<string, string> = {
+      'file:///proj/pkg/__init__.py': 'from .a import Base\n',
+      'file:///proj/pkg/a.py': baseClass,
+      'file:///proj/pkg/b.py': baseClass,
+      'file:///proj/main.py': 'from pkg import Base\nclass Impl(Base):\n    def run(self): pass\n'
+    };
+    const workspace = new FakeWorkspace(files);
+    const fresh = new PythonAnalyzer();
+    const implementations = async (uri: string, needle = 'run') => {
+      const source = files[uri];
+      const doc = { uri, getValue: () => source };
+      const result = await fresh.provideImplementation(doc, positionOf(source, needle), workspace);
+      return result && result.map(l => `${l.uri.replace('file:///proj/', '')}:${l.range.startLineNumber}`);
+    };
+
+    expect(await implementations('file:///proj/pkg/a.py')).toEqual(['main.py:3']);
+    files['file:///proj/pkg/__init__.py'] = 'from .b import Base\n';
+    expect(await implementations('file:///proj/pkg/b.py')).toEqual(['main.py:3']);
+    expect(await implementations('file:///proj/pkg/a.py')).toBeNull();
+
+    files['file:///proj/late.py'] = 'from shapes import Shape\nclass Square(Shape):\n    def area(self): pass\n';
+    expect(await implementations('file:///proj/pkg/a.py')).toBeNull();
+    files['file:///proj/shapes.py'] = 'class Shape:\n    def area(self): pass\n';
+    expect(await implementations('file:///proj/shapes.py', 'area')).toEqual(['late.py:3']);
+  });
+
+  it('returns null for module-level functions', async () => {
+    const files = { 'file:///proj/base.py': 'def run(): pass\nrun()\n' };
+    expect(await implementationsAt(files, 'run', 2)).toBeNull();
+  });
+});
+
+describe('PythonAnalyzer — call hierarchy', () => {
+  const files = {
+    'file:///proj/shop/orders.py': [
+      'from shop.pricing import total as compute_total',
+      'class Order:',
+      '    def __init__(self, items):',
+      '        self.items = items',
+      '    def checkout(self):',
+      '        amount = compute_total(self.items)',
+      '        self.notify(amount)',
+      '        return compute_total([]) + len(self.items)',
+      '    def notify(self, amount):',
+      '        def fmt(x):',
+      '            return str(round(x))',
+      '        print(fmt(amount))'
+    ].join('\n'),
+    'file:///proj/shop/pricing.py': [
+      'def total(items):',
+      '    return sum(item.price for item in items)',
+      '',
+      'def discounted(items):',
+      '    return total(items) * 0.9'
+    ].join('\n'),
+    'file:///proj/shop/__init__.py': '',
+    'file:///proj/main.py': [
+      'from shop.orders import Order',
+      'from shop import pricing',
+      'order = Order([])',
+      'order.checkout()',
+      'pricing.total([])'
+    ].join('\n')
+  };
+  const workspace = new FakeWorkspace(files);
+
+  async function itemsAt(uri: string, needle: string, occurrence = 1): Promise<CallHierarchyItem[] | null> {
+    const source = files[uri as keyof typeof files];
+    const doc = { uri, getValue: () => source };
+    return analyzer.prepareCallHierarchy(doc, positionOf(source, needle, occurrence), workspace);
+  }
+
+  function describeItem(item: CallHierarchyItem): string {
+    const where = `${item.uri.replace('file:///proj/', '')}:${item.selectionRange.startLineNumber}`;
+    return `${item.kind} ${item.name} (${item.detail ?? ''}) ${where}`;
+  }
+
+  it('prepares items for functions, methods and classes', async () => {
+    const [total] = (await itemsAt('file:///proj/shop/pricing.py', 'total')) ?? [];
+    expect(describeItem(total)).toBe('function total (pricing) shop/pricing.py:1');
+    expect(total.range).toEqual({ startLineNumber: 1, startColumn: 1, endLineNumber: 2, endColumn: 45 });
+
+    const [checkout] = (await itemsAt('file:///proj/main.py', 'checkout')) ?? [];
+    expect(describeItem(checkout)).toBe('method checkout (orders.Order) shop/orders.py:5');
+    const [order] = (await itemsAt('file:///proj/main.py', 'Order', 2)) ?? [];
+    expect(describeItem(order)).toBe('class Order (orders) shop/orders.py:2');
+
+    expect(await itemsAt('file:///proj/main.py', 'order =')).toBeNull();
+  });
+
+  it('lists the calls a method body makes, grouped by callee', async () => {
+    const [checkout] = (await itemsAt('file:///proj/shop/orders.py', 'checkout')) ?? [];
+    const calls = await analyzer.provideOutgoingCalls(checkout, workspace);
+    expect(calls?.map(call => [describeItem(call.to), call.fromRanges.map(range => range.startLineNumber)])).toEqual([
+      ['function total (pricing) shop/pricing.py:1', [6, 8]],
+      ['method notify (orders.Order) shop/orders.py:9', [7]]
+    ]);
+  });
+
+  it('leaves calls inside nested functions to those functions', async () => {
+    const [notify] = (await itemsAt('file:///proj/shop/orders.py', 'notify', 2)) ?? [];
+    const calls = await analyzer.provideOutgoingCalls(notify, workspace);
+    expect(calls?.map(call => describeItem(call.to))).toEqual(['function fmt (orders.Order.notify) shop/orders.py:10']);
+  });
+
+  it('finds callers across the workspace, through aliases and module attributes', async () => {
+    const [total] = (await itemsAt('file:///proj/shop/pricing.py', 'total')) ?? [];
+    const calls = await analyzer.provideIncomingCalls(total, workspace);
+    expect(calls?.map(call => [describeItem(call.from), call.fromRanges.map(range => range.startLineNumber)])).toEqual([
+      ['method checkout (orders.Order) shop/orders.py:5', [6, 8]],
+      ['function discounted (pricing) shop/pricing.py:4', [5]],
+      ['module main () main.py:1', [5]]
+    ]);
+  });
+
+  it('counts instantiations as calls to the class', async () => {
+    const [order] = (await itemsAt('file:///proj/main.py', 'Order', 2)) ?? [];
+    const calls = await analyzer.provideIncomingCalls(order, workspace);
+    expect(calls?.map(call => describeItem(call.from))).toEqual(['module main () main.py:1']);
+  });
+});
+
+describe('PythonAnalyzer — semantic tokens', () => {
+  async function tokensOf(
+    files: Record<string, string>,
+    uri = 'file:///proj/main.py',
+    range?: DefinitionLocation['range']
+  ): Promise<string[] | null> {
+    const source = files[uri];
+    const doc = { uri, getValue: () => source };
+    const tokens = await analyzer.provideSemanticTokens(doc, new FakeWorkspace(files), range);
+    return (
+      tokens &&
+      tokens.map(({ range: { startLineNumber, startColumn, endColumn }, type, modifiers }) => {
+        const text = source.split('\n')[startLineNumber - 1].slice(startColumn - 1, endColumn - 1);
+        return [`${startLineNumber}:${text}`, type, ...modifiers].join(' ');
+      })
+    );
+  }
+
+  it('classifies names by the binding they resolve to', async () => {
+    const source = [
+      'MAX_ITEMS = 10',
+      'class Cart:',
+      '    limit = MAX_ITEMS',
+      '    def __init__(self, owner):',
+      '        self.owner = owner',
+      '    @property',
+      '    def size(self):',
+      '        return self.limit',
+      'def make[T](kind: T, count=1):',
+      '    cart = Cart(owner=kind)',
+      '    return cart.size'
+    ].join('\n');
+    expect(await tokensOf({ 'file:///proj/main.py': source })).toEqual([
+      '1:MAX_ITEMS variable declaration readonly',
+      '2:Cart class declaration',
+      '3:limit property declaration',
+      '3:MAX_ITEMS variable readonly',
+      '4:__init__ method declaration',
+      '4:self parameter declaration',
+      '4:owner parameter declaration',
+      '5:self parameter',
+      '5:owner property declaration',
+      '5:owner parameter',
+      '7:size property declaration',
+      '7:self parameter declaration',
+      '8:self parameter',
+      '8:limit property',
+      '9:make function declaration',
+      '9:T typeParameter declaration',
+      '9:kind parameter declaration',
+      '9:T typeParameter',
+      '9:count parameter declaration',
+      '10:cart variable declaration',
+      '10:Cart class',
+      '10:owner parameter',
+      '10:kind parameter',
+      '11:cart variable'
+    ]);
+  });
+
+  it('colours imports by what they import', async () => {
+    const files = {
+      'file:///proj/main.py': [
+        'import util',
+        'from util import Helper as H, run, LIMIT',
+        'from pkg import missing',
+        'H(); run(LIMIT); util.run()'
+      ].join('\n'),
+      'file:///proj/util.py': 'LIMIT = 3\nclass Helper: pass\ndef run(x=None): pass\n'
+    };
+    expect(await tokensOf(files)).toEqual([
+      '1:util namespace declaration',
+      '2:util namespace',
+      '2:Helper class',
+      '2:H class declaration',
+      '2:run function declaration',
+      '2:LIMIT variable declaration readonly',
+      '3:pkg namespace',
+      '4:H class',
+      '4:run function',
+      '4:LIMIT variable readonly',
+      '4:util namespace'
+    ]);
+  });
+
+  it('follows changes in imported modules without the importer changing', async () => {
+    const main = 'from util import make, later\nmake()\nlater()';
+    expect(await tokensOf({ 'file:///proj/main.py': main, 'file:///proj/util.py': 'def make(): pass\n' })).toEqual([
+      '1:util namespace',
+      '1:make function declaration',
+      '2:make function'
+    ]);
+    const changed = { 'file:///proj/main.py': main, 'file:///proj/util.py': 'class make: pass\nlater = 1\n' };
+    expect(await tokensOf(changed)).toEqual([
+      '1:util namespace',
+      '1:make class declaration',
+      '1:later variable declaration',
+      '2:make class',
+      '3:later variable'
+    ]);
+  });
+
+  it('resolves imports once per parse and only for the requested lines', async () => {
+    const files: Record<string, string> = {
+      'file:///proj/main.py': 'import numpy\nfrom util import make\nx = 1\nmake(numpy)\n',
+      'file:///proj/util.py': 'def make(value): pass\n'
+    };
+    const workspace = new FakeWorkspace(files);
+    const resolveImport = vi.spyOn(workspace, 'resolveImport');
+    const fresh = new PythonAnalyzer();
+    const source = files['file:///proj/main.py'];
+    const doc = { uri: 'file:///proj/main.py', getValue: () => source };
+    const line = (lineNumber: number) => ({
+      startLineNumber: lineNumber,
+      startColumn: 1,
+      endLineNumber: lineNumber,
+      endColumn: 12
+    });
+
+    for (let i = 0; i < 3; i++) await fresh.provideSemanticTokens(doc, workspace, line(3));
+    expect(resolveImport).not.toHaveBeenCalled();
+
+    await fresh.provideSemanticTokens(doc, workspace);
+    const calls = resolveImport.mock.calls.length;
+    expect(calls).toBeGreaterThan(0);
+    await fresh.provideSemanticTokens(doc, workspace);
+    expect(resolveImport).toHaveBeenCalledTimes(calls);
+
+    // The unresolved `numpy` is retried once the documents change.
+    files['file:///proj/numpy.py'] = '';
+    const tokens = await fresh.provideSemanticTokens(doc, workspace, line(4));
+    expect(resolveImport.mock.calls.slice(calls).map(([importPath]) => importPath)).toEqual(['numpy']);
+    expect(tokens?.map(token => token.type)).toEqual(['function', 'namespace']);
+  });
+
+  it('limits tokens to the requested lines', async () => {
+    const source = 'a = 1\nb = a\nc = b\n';
+    const range = { startLineNumber: 2, startColumn: 1, endLineNumber: 2, endColumn: 6 };
+    expect(await tokensOf({ 'file:///proj/main.py': source }, 'file:///proj/main.py', range)).toEqual([
+      '2:b variable declaration',
+      '2:a variable'
+    ]);
+  });
 });
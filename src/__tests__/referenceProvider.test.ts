@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { ReferenceProvider } from '../ReferenceProvider';
+import { FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('ReferenceProvider', () => {
+  it('finds references in every tracked python model', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///proj/util.py', 'def helper():\n    pass\n', 'python');
+    const main = monaco.addModel('file:///proj/main.py', 'from util import helper\nhelper()\n', 'python');
+    monaco.addModel('file:///proj/notes.md', 'helper', 'markdown');
+    const references = new ReferenceProvider(monaco, new DefinitionProvider(monaco));
+
+    const result = await references.provideReferences(
+      main,
+      { lineNumber: 2, column: 1 },
+      { includeDeclaration: false }
+    );
+
+    expect(result?.map(location => `${location.uri}:${location.range.startLineNumber}`)).toEqual([
+      'file:///proj/main.py:1',
+      'file:///proj/main.py:2'
+    ]);
+  });
+
+  it('maps notebook references back to their cells', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'total = 0', 'python');
+    const cell = monaco.addModel('file:///nb/a.ipynb#cell-1', 'print(total)', 'python');
+    const references = new ReferenceProvider(monaco, new DefinitionProvider(monaco, { notebooks: {} }));
+
+    const result = await references.provideReferences(
+      cell,
+      { lineNumber: 1, column: 8 },
+      { includeDeclaration: true }
+    );
+
+    expect(result?.map(location => `${location.uri}:${location.range.startLineNumber}`)).toEqual([
+      'file:///nb/a.ipynb#cell-0:1',
+      'file:///nb/a.ipynb#cell-1:1'
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { RenameProvider } from '../RenameProvider';
+import { FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('RenameProvider', () => {
+  it('produces a workspace edit across models', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///proj/util.py', 'def helper():\n    pass\n', 'python');
+    const main = monaco.addModel('file:///proj/main.py', 'from util import helper\nhelper()\n', 'python');
+    const rename = new RenameProvider(monaco, new DefinitionProvider(monaco));
+
+    const edit = await rename.provideRenameEdits(main, { lineNumber: 2, column: 1 }, 'assist');
+
+    expect(edit?.rejectReason).toBeUndefined();
+    expect(edit?.edits.map(e => `${e.resource}:${e.textEdit.range.startLineNumber}:${e.textEdit.text}`)).toEqual([
+      'file:///proj/util.py:1:assist',
+      'file:///proj/main.py:1:assist',
+      'file:///proj/main.py:2:assist'
+    ]);
+  });
+
+  it('reports rejections to monaco', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///proj/util.py', '', 'python');
+    const main = monaco.addModel('file:///proj/main.py', 'import util\nvalue = 1\nprint(value)\n', 'python');
+    const rename = new RenameProvider(monaco, new DefinitionProvider(monaco));
+
+    const invalid = await rename.provideRenameEdits(main, { lineNumber: 3, column: 8 }, 'not valid');
+    expect(invalid?.rejectReason).toMatch(/not a valid Python identifier/);
+    expect(await rename.resolveRenameLocation(main, { lineNumber: 3, column: 8 })).toEqual({
+      range: { startLineNumber: 3, startColumn: 7, endLineNumber: 3, endColumn: 12 },
+      text: 'value'
+    });
+    const module = await rename.resolveRenameLocation(main, { lineNumber: 1, column: 9 });
+    expect(module?.rejectReason).toMatch(/Modules/);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { SemanticTokensProvider } from '../SemanticTokensProvider';
+import { FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('SemanticTokensProvider', () => {
+  it('encodes tokens relative to the previous one', async () => {
+    const monaco = new FakeMonaco();
+    const model = monaco.addModel('file:///proj/main.py', 'def f(x):\n    return x\n', 'python');
+    const tokens = new SemanticTokensProvider(monaco, new DefinitionProvider(monaco));
+    const { tokenTypes, tokenModifiers } = tokens.getLegend();
+
+    const result = await tokens.provideDocumentSemanticTokens(model);
+
+    const declaration = 1 << tokenModifiers.indexOf('declaration');
+    expect(Array.from(result?.data ?? [])).toEqual([
+      0, 4, 1, tokenTypes.indexOf('function'), declaration,
+      0, 2, 1, tokenTypes.indexOf('parameter'), declaration,
+      1, 11, 1, tokenTypes.indexOf('parameter'), 0
+    ]);
+  });
+
+  it('marks builtins and stdlib imports as defaultLibrary when stdlib stubs are enabled', async () => {
+    const monaco = new FakeMonaco();
+    const model = monaco.addModel('file:///proj/main.py', 'import os\nprint(len(os.sep))\n', 'python');
+    const tokens = new SemanticTokensProvider(
+      monaco,
+      new DefinitionProvider(monaco, { python: { stdlibStubs: true } })
+    );
+    const { tokenTypes, tokenModifiers } = tokens.getLegend();
+    const defaultLibrary = 1 << tokenModifiers.indexOf('defaultLibrary');
+
+    const result = await tokens.provideDocumentRangeSemanticTokens(model, {
+      startLineNumber: 2,
+      startColumn: 1,
+      endLineNumber: 2,
+      endColumn: 19
+    });
+
+    const data = Array.from(result?.data ?? []);
+    const decoded = [];
+    for (let index = 0; index < data.length; index += 5) {
+      decoded.push([tokenTypes[data[index + 3]], (data[index + 4] & defaultLibrary) !== 0]);
+    }
+    expect(decoded).toEqual([
+      ['function', true],
+      ['function', true],
+      ['namespace', true]
+    ]);
+  });
+
+  it('colours a notebook cell in its own coordinates, with names from earlier cells', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'RATE = 2\ndef scale(x):\n    return x', 'python');
+    const cell = monaco.addModel('file:///nb/a.ipynb#cell-1', 'scale(RATE)', 'python');
+    const tokens = new SemanticTokensProvider(monaco, new DefinitionProvider(monaco, { notebooks: {} }));
+    const { tokenTypes, tokenModifiers } = tokens.getLegend();
+
+    const result = await tokens.provideDocumentSemanticTokens(cell);
+
+    expect(Array.from(result?.data ?? [])).toEqual([
+      0, 0, 5, tokenTypes.indexOf('function'), 0,
+      0, 6, 4, tokenTypes.indexOf('variable'), 1 << tokenModifiers.indexOf('readonly')
+    ]);
+  });
+});
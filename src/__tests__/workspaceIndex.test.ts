@@ -118,6 +118,233 @@ describe('WorkspaceIndex', () => {
     expect(doc?.uri).toBe('file:///proj/pkg/utils.py');
   });
 
+  it('resolves absolute imports against configured search paths in order', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///repo/src/app/main.py', 'import lib.tools\n', 'python');
+    monaco.addModel('file:///repo/libs/lib/tools.py', 'def tool(): pass\n', 'python');
+    monaco.addModel('file:///repo/src/lib/tools.py', 'def shadowed(): pass\n', 'python');
+    const index = new WorkspaceIndex(monaco, {
+      pythonSearchPaths: ['file:///repo/libs/', 'file:///repo/src']
+    });
+
+    const doc = await index.resolveImport('lib.tools', 'file:///repo/src/app/main.py');
+    expect(doc?.uri).toBe('file:///repo/libs/lib/tools.py');
+    // No guessed roots once search paths are configured.
+    expect(await index.resolveImport('src.app.main', 'file:///repo/src/app/main.py')).toBeNull();
+  });
+
+  it('resolves namespace packages spanning several search paths', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///repo/core/acme/models.py', 'class Model: pass\n', 'python');
+    monaco.addModel('file:///repo/plugins/acme/plugin.py', 'from . import models\n', 'python');
+    const index = new WorkspaceIndex(monaco, {
+      pythonSearchPaths: ['file:///repo/core', 'file:///repo/plugins']
+    });
+
+    const absolute = await index.resolveImport('acme.models', 'file:///repo/plugins/acme/plugin.py');
+    expect(absolute?.uri).toBe('file:///repo/core/acme/models.py');
+    const relative = await index.resolveImport('.models', 'file:///repo/plugins/acme/plugin.py');
+    expect(relative?.uri).toBe('file:///repo/core/acme/models.py');
+  });
+
+  it('keeps relative imports of regular packages inside their own portion', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///repo/core/acme/models.py', 'class Model: pass\n', 'python');
+    monaco.addModel('file:///repo/plugins/acme/__init__.py', '', 'python');
+    monaco.addModel('file:///repo/plugins/acme/plugin.py', 'from . import models\n', 'python');
+    const loadFile = vi.fn(async () => null);
+    const index = new WorkspaceIndex(monaco, {
+      loadFile,
+      pythonSearchPaths: ['file:///repo/core', 'file:///repo/plugins']
+    });
+
+    expect(await index.resolveImport('.models', 'file:///repo/plugins/acme/plugin.py')).toBeNull();
+    expect(loadFile).not.toHaveBeenCalledWith('file:///repo/core/acme/models.py', expect.anything(), expect.anything());
+  });
+
+  it('asks loadFile whether a package is a namespace package once until models change', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///repo/core/acme/models.py', 'class Model: pass\n', 'python');
+    monaco.addModel('file:///repo/plugins/acme/plugin.py', 'from . import models\n', 'python');
+    const loadFile = vi.fn(async (_uri: string) => null);
+    const index = new WorkspaceIndex(monaco, {
+      loadFile,
+      pythonSearchPaths: ['file:///repo/core', 'file:///repo/plugins']
+    });
+    const initLoads = () =>
+      loadFile.mock.calls.filter(([uri]) => uri === 'file:///repo/plugins/acme/__init__.py').length;
+
+    await index.resolveImport('.models', 'file:///repo/plugins/acme/plugin.py');
+    await index.resolveImport('.models', 'file:///repo/plugins/acme/plugin.py');
+    expect(initLoads()).toBe(1);
+
+    monaco.addModel('file:///repo/plugins/acme/extra.py', '', 'python');
+    await index.resolveImport('.models', 'file:///repo/plugins/acme/plugin.py');
+    expect(initLoads()).toBe(2);
+  });
+
+  it('resolves against a bare scheme root search path', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///pkg/mod.py', 'def helper(): pass\n', 'python');
+    const index = new WorkspaceIndex(monaco, { pythonSearchPaths: ['file:///'] });
+
+    expect((await index.resolveImport('pkg.mod', 'file:///main.py'))?.uri).toBe('file:///pkg/mod.py');
+    expect(index.moduleName('file:///pkg/mod.py')).toBe('pkg.mod');
+  });
+
+  it('serves bundled stdlib stubs as models without asking loadFile', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///proj/main.py', 'import os.path\n', 'python');
+    const loadFile = vi.fn(async () => null);
+    const index = new WorkspaceIndex(monaco, { loadFile, pythonStdlibStubs: true });
+
+    const doc = await index.resolveImport('os.path', 'file:///proj/main.py');
+    expect(doc?.uri).toBe('python-stdlib://bundled/os/path.pyi');
+    expect(doc?.getValue()).toContain('def join(');
+    expect(monaco.editor.getModel(monaco.Uri.parse(doc!.uri))?.getLanguageId()).toBe('python');
+    // Workspace candidates are still probed; the stub URI never is.
+    expect(loadFile).not.toHaveBeenCalledWith(doc!.uri, expect.anything(), expect.anything());
+
+    // Stubs import each other, relative imports included.
+    const sibling = await index.resolveImport('.path', 'python-stdlib://bundled/os/__init__.pyi');
+    expect(sibling?.uri).toBe('python-stdlib://bundled/os/path.pyi');
+    const typing = await index.resolveImport('typing', doc!.uri);
+    expect(typing?.uri).toBe('python-stdlib://bundled/typing.pyi');
+  });
+
+  it('lets workspace modules shadow bundled stubs, and keeps stubs opt-in', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///proj/main.py', 'import json\n', 'python');
+    const local = monaco.addModel('file:///proj/json.py', 'def loads(s): pass\n', 'python');
+    const index = new WorkspaceIndex(monaco, { pythonStdlibStubs: true });
+
+    expect((await index.resolveImport('json', 'file:///proj/main.py'))?.uri).toBe('file:///proj/json.py');
+    local.dispose();
+    expect((await index.resolveImport('json', 'file:///proj/main.py'))?.uri).toBe(
+      'python-stdlib://bundled/json/__init__.pyi'
+    );
+
+    const plain = new WorkspaceIndex(new FakeMonaco());
+    expect(await plain.resolveImport('json', 'file:///proj/main.py')).toBeNull();
+  });
+
+  it('asks loadFile for project modules before serving bundled stubs', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///proj/main.py', 'import logging\n', 'python');
+    const loadFile = vi.fn(async (uri: string) =>
+      uri === 'file:///proj/logging.py' ? { content: 'def getLogger(name): pass\n' } : null
+    );
+    const index = new WorkspaceIndex(monaco, { loadFile, pythonStdlibStubs: true });
+
+    expect((await index.resolveImport('logging', 'file:///proj/main.py'))?.uri).toBe('file:///proj/logging.py');
+    expect((await index.resolveImport('json', 'file:///proj/main.py'))?.uri).toBe(
+      'python-stdlib://bundled/json/__init__.pyi'
+    );
+  });
+
+  it('composes notebook cells into one document in cell order', () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-2', '%matplotlib inline\ny = x', 'python');
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'x = 1', 'python');
+    monaco.addModel('file:///nb/b.ipynb#cell-1', 'z = 2', 'python');
+    const index = new WorkspaceIndex(monaco, { notebooks: {} });
+
+    const notebook = index.getNotebook('file:///nb/a.ipynb#cell-2');
+    expect(notebook?.uri).toBe('file:///nb/a.ipynb');
+    // Magics become comments of the same length.
+    expect(notebook?.getValue()).toBe('x = 1\n#matplotlib inline\ny = x');
+    expect(notebook?.cells).toEqual([
+      { uri: 'file:///nb/a.ipynb#cell-0', lineOffset: 0, lineCount: 1 },
+      { uri: 'file:///nb/a.ipynb#cell-2', lineOffset: 1, lineCount: 2 }
+    ]);
+    expect(index.getDocument('file:///nb/a.ipynb')?.getValue()).toBe(notebook?.getValue());
+
+    const plain = new WorkspaceIndex(monaco);
+    expect(plain.getNotebook('file:///nb/a.ipynb#cell-2')).toBeNull();
+    expect(plain.getDocument('file:///nb/a.ipynb')).toBeNull();
+  });
+
+  it('loads .ipynb files through loadFile as one model per code cell', async () => {
+    const monaco = new FakeMonaco();
+    const notebookJson = JSON.stringify({
+      nbformat: 4,
+      cells: [
+        { cell_type: 'markdown', source: ['# Title'] },
+        { cell_type: 'code', source: ['import os\n', 'def load(): pass'] },
+        { cell_type: 'code', source: 'data = load()' }
+      ]
+    });
+    const index = new WorkspaceIndex(monaco, {
+      notebooks: {
+        cellUri: (notebookUri, index) => `${notebookUri}?cell=${index}`,
+        cellOf: uri => {
+          const match = uri.match(/^(.*)\?cell=(\d+)$/);
+          return match ? { notebookUri: match[1], index: Number(match[2]) } : null;
+        }
+      },
+      resolveModuleUri: () => 'file:///nb/pipeline.ipynb',
+      loadFile: async uri => ({ uri, content: notebookJson })
+    });
+
+    const doc = await index.resolveImport('pipeline', 'file:///nb/main.py');
+    expect(doc?.uri).toBe('file:///nb/pipeline.ipynb');
+    expect(doc?.cells?.map(cell => cell.uri)).toEqual([
+      'file:///nb/pipeline.ipynb?cell=1',
+      'file:///nb/pipeline.ipynb?cell=2'
+    ]);
+    expect(monaco.editor.getModel(monaco.Uri.parse('file:///nb/pipeline.ipynb?cell=2'))?.getValue()).toBe(
+      'data = load()'
+    );
+  });
+
+  it('orders loaded notebook cells by their saved execution counts', async () => {
+    const monaco = new FakeMonaco();
+    const notebookJson = JSON.stringify({
+      nbformat: 4,
+      cells: [
+        { cell_type: 'code', execution_count: 2, source: 'data = load()' },
+        { cell_type: 'code', execution_count: null, source: 'draft = 0' },
+        { cell_type: 'code', execution_count: 1, source: 'def load(): pass' }
+      ]
+    });
+    const index = new WorkspaceIndex(monaco, {
+      notebooks: {},
+      resolveModuleUri: () => 'file:///nb/pipeline.ipynb',
+      loadFile: async uri => ({ uri, content: notebookJson })
+    });
+
+    const doc = await index.resolveImport('pipeline', 'file:///nb/main.py');
+    expect(doc?.getValue()).toBe('def load(): pass\ndata = load()\ndraft = 0');
+    expect(doc?.cells?.map(cell => cell.uri)).toEqual([
+      'file:///nb/pipeline.ipynb#cell-2',
+      'file:///nb/pipeline.ipynb#cell-0',
+      'file:///nb/pipeline.ipynb#cell-1'
+    ]);
+  });
+
+  it('orders notebook cells by the execution counts the host reports', () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'x = y', 'python');
+    monaco.addModel('file:///nb/a.ipynb#cell-1', 'y = 1', 'python');
+    monaco.addModel('file:///nb/a.ipynb#cell-2', 'z = 2', 'python');
+    const counts: Record<string, number | null> = { 'file:///nb/a.ipynb#cell-0': 4, 'file:///nb/a.ipynb#cell-1': 3 };
+    const index = new WorkspaceIndex(monaco, { notebooks: { executionOrder: uri => counts[uri] ?? null } });
+
+    expect(index.getDocument('file:///nb/a.ipynb')?.getValue()).toBe('y = 1\nx = y\nz = 2');
+
+    counts['file:///nb/a.ipynb#cell-1'] = 5;
+    expect(index.getDocument('file:///nb/a.ipynb')?.getValue()).toBe('x = y\ny = 1\nz = 2');
+  });
+
+  it('names python modules relative to the import roots', () => {
+    const index = new WorkspaceIndex(new FakeMonaco(), { pythonSearchPaths: ['file:///repo/src'] });
+
+    expect(index.moduleName('file:///repo/src/shop/orders.py')).toBe('shop.orders');
+    expect(index.moduleName('file:///repo/src/shop/__init__.pyi')).toBe('shop');
+    expect(index.moduleName('python-stdlib://bundled/os/path.pyi')).toBe('os.path');
+    expect(index.moduleName('file:///elsewhere/tool.py')).toBeNull();
+  });
+
   it('survives a throwing loadFile hook', async () => {
     const monaco = new FakeMonaco();
     const index = new WorkspaceIndex(monaco, {
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DefinitionProvider } from '../DefinitionProvider';
+import { WorkspaceSymbolProvider } from '../WorkspaceSymbolProvider';
+import { fuzzyScore, rankByName } from '../workspace/symbolSearch';
+import { FakeEditor, FakeMonaco } from './helpers/fakeMonaco';
+import { testPythonParser } from './helpers/pythonTestParser';
+
+beforeAll(async () => {
+  await testPythonParser();
+});
+
+describe('fuzzy symbol matching', () => {
+  it('matches query characters in order, ignoring case', () => {
+    expect(fuzzyScore('gu', 'get_user')).not.toBeNull();
+    expect(fuzzyScore('GU', 'get_user')).not.toBeNull();
+    expect(fuzzyScore('ug', 'get_user')).toBeNull();
+  });
+
+  it('ranks exact, prefix and word-start matches first', () => {
+    const names = ['debug_util', 'get_user', 'gu', 'guard'];
+    expect(rankByName(names, 'gu', name => name)).toEqual(['gu', 'guard', 'get_user', 'debug_util']);
+    expect(rankByName(['HttpClient', 'hash_table', 'the_client'], 'hc', name => name)).toEqual([
+      'HttpClient',
+      'the_client'
+    ]);
+  });
+});
+
+describe('WorkspaceSymbolProvider', () => {
+  it('searches classes, functions and module-level names across tracked models', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel(
+      'file:///proj/shop/orders.py',
+      'MAX_ITEMS = 5\nclass OrderService:\n    total = 0\n    def place_order(self):\n        pass\n',
+      'python'
+    );
+    monaco.addModel('file:///proj/main.py', 'def print_report():\n    order_id = 1\n', 'python');
+    monaco.addModel('file:///proj/notes.md', 'order', 'markdown');
+    const symbols = new WorkspaceSymbolProvider(monaco, new DefinitionProvider(monaco));
+
+    const result = await symbols.provideWorkspaceSymbols('order');
+
+    expect(result.map(symbol => [symbol.name, symbol.kind, symbol.containerName])).toEqual([
+      ['OrderService', 'class', 'shop.orders'],
+      ['place_order', 'method', 'OrderService']
+    ]);
+    expect(result[1].location).toEqual({
+      uri: 'file:///proj/shop/orders.py',
+      range: { startLineNumber: 4, startColumn: 9, endLineNumber: 4, endColumn: 20 }
+    });
+  });
+
+  it('follows model edits and files brought in by loadFile', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel('file:///proj/main.py', 'import helpers\ndef alpha(): pass\n', 'python');
+    const definitions = new DefinitionProvider(monaco, {
+      loadFile: async uri =>
+        uri === 'file:///proj/helpers.py' ? { uri, content: 'def alpha_helper(): pass\n' } : null
+    });
+    const symbols = new WorkspaceSymbolProvider(monaco, definitions);
+    const names = async (): Promise<string[]> =>
+      (await symbols.provideWorkspaceSymbols('alpha')).map(symbol => symbol.name);
+
+    expect(await names()).toEqual(['alpha']);
+
+    main.setValue('import helpers\ndef alphabet(): pass\n');
+    await definitions.provideDefinition(main, { lineNumber: 1, column: 9 });
+
+    expect(await names()).toEqual(['alphabet', 'alpha_helper']);
+  });
+
+  it('finds symbols in notebook cells', async () => {
+    const monaco = new FakeMonaco();
+    monaco.addModel('file:///nb/a.ipynb#cell-0', 'import pandas', 'python');
+    monaco.addModel('file:///nb/a.ipynb#cell-1', 'def clean(frame):\n    return frame', 'python');
+    const symbols = new WorkspaceSymbolProvider(monaco, new DefinitionProvider(monaco, { notebooks: {} }));
+
+    const result = await symbols.provideWorkspaceSymbols('clean');
+
+    expect(result.map(symbol => `${symbol.location.uri}:${symbol.location.range.startLineNumber}`)).toEqual([
+      'file:///nb/a.ipynb#cell-1:1'
+    ]);
+  });
+
+  it('reveals the picked symbol from an editor action', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel('file:///proj/main.py', 'x = 1\n', 'python');
+    const util = monaco.addModel('file:///proj/util.py', '\n\nclass Toolbox:\n    pass\n', 'python');
+    const symbols = new WorkspaceSymbolProvider(monaco, new DefinitionProvider(monaco));
+    const editor = new FakeEditor(main);
+
+    symbols.addEditorAction(editor, async search => (await search('tool'))[0]);
+    await editor.actions[0].run();
+
+    expect(editor.getModel()).toBe(util);
+    expect(editor.selection).toEqual({ startLineNumber: 3, startColumn: 7, endLineNumber: 3, endColumn: 14 });
+
+    symbols.dispose();
+    expect(editor.actions).toEqual([]);
+  });
+
+  it('creates a model to reveal a symbol the editor has no model for', async () => {
+    const monaco = new FakeMonaco();
+    const main = monaco.addModel('file:///proj/main.py', 'x = 1\n', 'python');
+    monaco.addModel('file:///proj/util.py', 'class Toolbox:\n    pass\n', 'python');
+    const symbols = new WorkspaceSymbolProvider(monaco, new DefinitionProvider(monaco));
+    const editor = new FakeEditor(main);
+    const getModel = monaco.editor.getModel;
+    monaco.editor.getModel = uri => (uri.toString() === 'file:///proj/util.py' ? null : getModel(uri));
+
+    symbols.addEditorAction(editor, async search => (await search('tool'))[0]);
+    await editor.actions[0].run();
+
+    expect(editor.getModel()?.uri.toString()).toBe('file:///proj/util.py');
+    expect(editor.getModel()?.getValue()).toBe('class Toolbox:\n    pass\n');
+    expect(editor.getModel()?.getLanguageId()).toBe('python');
+    expect(editor.selection).toEqual({ startLineNumber: 1, startColumn: 7, endLineNumber: 1, endColumn: 14 });
+  });
+});
@@ -1,30 +1,90 @@
 import type { Node, Parser } from 'web-tree-sitter';
 import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CancellationToken,
   DefinitionLocation,
+  DocumentHighlight,
+  DocumentSymbol,
+  Hover,
   LanguageAnalyzer,
+  ModuleFlavor,
   PythonOptions,
+  RenameLocation,
+  RenameRejection,
+  SemanticToken,
+  TextEdit,
   WorkspaceAccess,
   WorkspaceDocument
 } from '../../types';
+import { isPythonStdlibUri } from '../../workspace/pythonStdlib';
+import { calleeIdentifier, callsIn, enclosingDefinition } from './calls';
+import { symbolOccurrences } from './highlights';
+import { describeDefinition } from './hover';
+import {
+  TypeSource,
+  annotatedClass,
+  elementAnnotation,
+  isNone,
+  parseStringAnnotation,
+  stringAnnotationAt,
+  typeSourceOf
+} from './inference';
+import { ParsedModule, ParsedModuleCache } from './moduleCache';
+import { definitionKind, documentSymbols } from './outline';
 import { createPythonParser } from './parser';
 import {
   Binding,
   Point,
-  buildScopeTree,
+  Scope,
+  baseClassNodes,
+  bindingAt,
+  decoratorNames,
+  definitionScope,
+  dunderAllEntries,
+  findClassMember,
   findModuleBinding,
+  findModuleBindings,
+  isEnumClass,
+  isProtocolClass,
+  isWildcardExported,
+  owningClass,
   resolveName,
-  scopeAt
+  resolveNameCandidates,
+  scopeAt,
+  scopeOfBinding,
+  selfMethodScope,
+  synthesizesInit
 } from './scopes';
+import {
+  ClassifiedIdentifier,
+  TokenClass,
+  TokenStyle,
+  bindingStyle,
+  classifyModule,
+  withDeclaration
+} from './semanticTokens';
 
 /**
  * Scope-aware Python definition analyzer backed by tree-sitter.
  *
  * Resolution follows real Python scoping (LEGB with class-scope skipping,
  * global/nonlocal). Imported names resolve through the workspace: open models
- * first, then the host's `loadFile` hook for lazily-loaded files.
+ * first, then the host's `loadFile` hook for lazily-loaded files. Class
+ * members are looked up along the C3 MRO, with bases resolved across files.
  */
 export class PythonAnalyzer implements LanguageAnalyzer {
   private parserPromise: Promise<Parser> | null = null;
+  private readonly modules = new ParsedModuleCache();
+  private readonly tokenClasses = new WeakMap<ParsedModule, ClassifiedIdentifier[]>();
+  /** Resolved styles of each parse's imports (by binding) and builtins (by name). */
+  private readonly resolvedStyles = new WeakMap<
+    ParsedModule,
+    { imports: Map<Binding, ResolvedStyle>; builtins: Map<string, ResolvedStyle> }
+  >();
+  /** Per-document class index entries behind {@link classHierarchy}, by URI. */
+  private readonly classIndex = new Map<string, ClassIndexEntry>();
 
   constructor(private readonly options: PythonOptions = {}) {}
 
@@ -43,220 +103,2077 @@ export class PythonAnalyzer implements LanguageAnalyzer {
     position: { lineNumber: number; column: number },
     workspace: WorkspaceAccess
   ): Promise<DefinitionLocation[] | null> {
-    const parser = await this.getParser();
-    const tree = parser.parse(doc.getValue());
-    if (!tree) return null;
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      if (!located) return null;
+      const locations = await this.resolveAt(located.point, located.module, workspace);
+      return locations && locations.map(location => toCellLocation(location, workspace));
+    });
+  }
 
-    try {
-      const point: Point = { row: position.lineNumber - 1, column: position.column - 1 };
-      const identifier = identifierAt(tree.rootNode, point);
-      if (!identifier) return null;
+  /**
+   * The class of the value the name at `position` holds: the annotation of a
+   * variable, parameter or attribute (looking inside `Optional[…]`,
+   * `X | None` and single-element containers such as `list[…]`), else the
+   * inferred type; a function's return annotation; a class itself.
+   */
+  async provideTypeDefinition(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
+      const value = await this.typeOf(identifier, located.module, workspace);
+      if (value?.kind !== 'class' && value?.kind !== 'instance') return null;
+
+      const nameNode = value.cls.scope.node.childForFieldName('name');
+      if (!nameNode) return null;
+      const location = toLocation(value.cls.module.uri, nameNode.startPosition, nameNode.endPosition);
+      return [toCellLocation(location, workspace)];
+    });
+  }
+
+  /**
+   * Overrides of the method at `position` in subclasses across the workspace's
+   * Python documents, or the subclasses of the class there. Abstract methods,
+   * `Protocol` members and ordinary base methods alike; a protocol is also
+   * implemented by classes defining all of its methods without inheriting it.
+   */
+  async provideImplementation(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
+      const definitions = await this.resolveInAllFlavors(identifier, located.module, workspace);
+      if (!definitions) return null;
 
-      // Click inside an import statement → navigate to the module/symbol itself.
-      const importResult = await this.resolveImportClick(identifier, doc, workspace);
-      if (importResult) return importResult;
+      const locations: DefinitionLocation[] = [];
+      let hierarchy: ClassHierarchy | null = null;
+      for (const definition of definitions) {
+        const target = await this.classMemberAt(definition, workspace);
+        if (!target) continue;
+        hierarchy ??= await this.classHierarchy(located.module, workspace);
+        for (const indexed of implementationsOf(target.cls, hierarchy)) {
+          const implementation = await this.indexedClassRef(indexed, located.module, workspace);
+          if (!implementation) continue;
+          const { module, scope } = implementation;
+          const nameNode = scope.node.childForFieldName('name');
+          const sites =
+            target.name === null
+              ? nameNode ? [{ start: nameNode.startPosition, end: nameNode.endPosition }] : []
+              : (scope.bindings.get(target.name) ?? []).filter(isFunction);
+          for (const { start, end } of sites) {
+            const location = toLocation(module.uri, start, end);
+            if (!locations.some(existing => sameLocation(existing, location))) locations.push(location);
+          }
+        }
+      }
+      return locations.length > 0 ? locations.map(location => toCellLocation(location, workspace)) : null;
+    });
+  }
 
-      // `mod.symbol` with the cursor on `symbol` — resolve only when `mod`
-      // is an imported module (no type inference).
-      const attrResult = await this.resolveAttributeClick(identifier, doc, workspace);
-      if (attrResult !== undefined) return attrResult;
+  /**
+   * The class `definition` names, or the class and method name when it names
+   * a method. Call only inside `this.modules.use`.
+   */
+  private async classMemberAt(
+    definition: DefinitionLocation,
+    workspace: WorkspaceAccess
+  ): Promise<{ cls: ClassRef; name: string | null } | null> {
+    const doc = workspace.getDocument(definition.uri);
+    const module = doc && (await this.parseDocument(doc));
+    const point = { row: definition.range.startLineNumber - 1, column: definition.range.startColumn - 1 };
+    const binding = module && bindingAt(module.scope, point);
+    if (!module || !binding) return null;
+    if (binding.kind === 'class') {
+      const scope = definitionScope(module.scope, binding);
+      return scope ? { cls: { module, scope }, name: null } : null;
+    }
+    const owner = binding.kind === 'function' ? scopeOfBinding(module.scope, binding) : null;
+    return owner?.kind === 'class' ? { cls: { module, scope: owner }, name: binding.name } : null;
+  }
 
-      // Plain reference: walk the scope chain.
-      const rootScope = buildScopeTree(tree);
-      const scope = scopeAt(rootScope, identifier.startPosition);
-      const binding = resolveName(scope, identifier.text, identifier.startPosition);
-      if (!binding) return null;
+  /**
+   * Every class in the workspace's Python documents (bundled stubs aside) and
+   * `current`, with direct subclasses indexed by the key of each base they
+   * resolve — through imports — to. A document is only re-parsed and its bases
+   * re-evaluated when its source or that of a module consulted while resolving
+   * them has changed, or — when some base did not resolve — when documents
+   * were added or removed. Call only inside `this.modules.use`.
+   */
+  private async classHierarchy(current: ParsedModule, workspace: WorkspaceAccess): Promise<ClassHierarchy> {
+    const documents = [...(workspace.getDocuments?.('python') ?? [])];
+    if (!documents.some(document => document.uri === current.uri)) {
+      const { uri, source } = current;
+      documents.push({ uri, getValue: () => source });
+    }
 
-      if (binding.kind !== 'import') {
-        return [toLocation(doc.uri, binding.start, binding.end)];
+    const hierarchy: ClassHierarchy = { classes: [], subclasses: new Map() };
+    const documentSet = documentSetOf(documents);
+    const indexed = new Set<string>();
+    for (const doc of documents) {
+      if (isPythonStdlibUri(doc.uri)) continue;
+      const entry = await this.classIndexEntry(doc, documentSet, workspace);
+      if (!entry) continue;
+      indexed.add(doc.uri);
+      for (const cls of entry.classes) {
+        hierarchy.classes.push(cls);
+        for (const key of cls.baseKeys) {
+          hierarchy.subclasses.set(key, [...(hierarchy.subclasses.get(key) ?? []), cls]);
+        }
       }
-      return this.resolveImportedBinding(binding, doc, workspace);
-    } finally {
-      tree.delete();
     }
+    for (const uri of this.classIndex.keys()) {
+      if (!indexed.has(uri)) this.classIndex.delete(uri);
+    }
+    return hierarchy;
   }
 
   /**
-   * Resolve a click on a name inside an `import`/`from … import` statement.
-   * Returns null when the identifier is not part of an import statement.
+   * The cached index entry for `doc`, rebuilt when it is stale. `documentSet`
+   * identifies the documents currently tracked. Call only inside
+   * `this.modules.use`.
    */
-  private async resolveImportClick(
-    identifier: Node,
+  private async classIndexEntry(
     doc: WorkspaceDocument,
+    documentSet: string,
     workspace: WorkspaceAccess
-  ): Promise<DefinitionLocation[] | null> {
-    const importStmt = ancestorOfType(identifier, ['import_statement', 'import_from_statement']);
-    if (!importStmt) return null;
+  ): Promise<ClassIndexEntry | null> {
+    const source = doc.getValue();
+    const cached = this.classIndex.get(doc.uri);
+    if (cached?.source === source && isCurrent(cached, workspace, documentSet)) return cached;
 
-    if (importStmt.type === 'import_statement') {
-      // `import a.b.c [as d]` — navigate to the module file.
-      const dotted = ancestorOfType(identifier, ['dotted_name']) ?? identifier;
-      return this.navigateToModule(dotted.text, doc, workspace);
+    const module = await this.parseDocument(doc);
+    if (!module) return null;
+    const entry: ClassIndexEntry = { source: module.source, classes: [], dependencies: new Map(), documentSet: null };
+    const recording = recordImports(workspace, module.uri, entry, documentSet);
+    for (const scope of classScopes(module.scope)) {
+      const baseKeys: string[] = [];
+      for (const baseNode of baseClassNodes(scope)) {
+        const base = scope.parent && (await this.evaluate(baseNode, module, scope.parent, recording));
+        // A base that did not resolve may once documents change.
+        if (base?.kind === 'class') baseKeys.push(classKey(base.cls));
+        else entry.documentSet = documentSet;
+      }
+      entry.classes.push({
+        key: classKey({ module, scope }),
+        uri: module.uri,
+        baseKeys,
+        protocol: isProtocolClass(scope),
+        methods: [...scope.bindings.entries()].filter(([, bindings]) => bindings.some(isFunction)).map(([name]) => name)
+      });
     }
+    this.classIndex.set(doc.uri, entry);
+    return entry;
+  }
 
-    const moduleNode = importStmt.childForFieldName('module_name');
-    const importPath = moduleNode?.text ?? '';
-
-    if (moduleNode && isInside(identifier, moduleNode)) {
-      // Click on the module part of `from a.b import x`.
-      return this.navigateToModule(importPath, doc, workspace);
+  /** The live class an index entry stands for. Call only inside `this.modules.use`. */
+  private async indexedClassRef(
+    indexed: IndexedClass,
+    current: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<ClassRef | null> {
+    let module: ParsedModule | null = current;
+    if (indexed.uri !== current.uri) {
+      const doc = workspace.getDocument(indexed.uri);
+      module = doc && (await this.parseDocument(doc));
+    }
+    if (!module) return null;
+    for (const scope of classScopes(module.scope)) {
+      if (classKey({ module, scope }) === indexed.key) return { module, scope };
     }
+    return null;
+  }
 
-    // Click on an imported name (or its alias).
-    const aliased = ancestorOfType(identifier, ['aliased_import']);
-    const importedName = aliased?.childForFieldName('name')?.text ?? identifier.text;
-    return this.navigateToImportedSymbol(importPath, importedName, doc, workspace);
+  /**
+   * Every identifier in the workspace's Python documents that resolves to the
+   * symbol at `position`: a candidate counts when go-to-definition on it lands
+   * on one of the symbol's binding sites, so shadowed names never match.
+   * Aliases (`from m import x as y`) are found under their local name.
+   */
+  async provideReferences(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess,
+    context: { includeDeclaration: boolean },
+    token?: CancellationToken
+  ): Promise<DefinitionLocation[] | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
+      const found = await this.findReferences(identifier, located.module, workspace, token);
+      if (!found) return null;
+
+      const references = found.references
+        .map(({ module, node }) => toLocation(module.uri, node.startPosition, node.endPosition))
+        .filter(
+          reference =>
+            context.includeDeclaration || !found.definitions.some(definition => sameLocation(definition, reference))
+        );
+      return references.length > 0 ? references.map(location => toCellLocation(location, workspace)) : null;
+    });
   }
 
   /**
-   * Resolve `mod.symbol` attribute access when `mod` is an imported module.
-   * Returns undefined when the identifier is not an attribute access (caller
-   * should continue with normal resolution); null when it is one but cannot
-   * be resolved.
+   * Occurrences of the symbol at `position` within `doc`, from the cached
+   * tree alone: imports are not followed, so this stays cheap per cursor move.
    */
-  private async resolveAttributeClick(
-    identifier: Node,
+  async provideDocumentHighlights(
     doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
     workspace: WorkspaceAccess
-  ): Promise<DefinitionLocation[] | null | undefined> {
-    const parent = identifier.parent;
-    if (parent?.type !== 'attribute') return undefined;
-    if (parent.childForFieldName('attribute')?.id !== identifier.id) return undefined;
+  ): Promise<DocumentHighlight[] | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
 
-    const objectNode = parent.childForFieldName('object');
-    if (objectNode?.type !== 'identifier') return null;
+      const highlights: DocumentHighlight[] = [];
+      for (const { node, write } of symbolOccurrences(located.module, identifier)) {
+        const location = toCellLocation(toLocation(located.module.uri, node.startPosition, node.endPosition), workspace);
+        // A notebook cell only highlights its own occurrences.
+        if (location.uri === doc.uri) highlights.push({ range: location.range, kind: write ? 'write' : 'read' });
+      }
+      return highlights.length > 0 ? highlights : null;
+    });
+  }
+
+  /**
+   * Signature, docstring and module of every definition the symbol at
+   * `position` resolves to, following imports like go-to-definition does.
+   */
+  async provideHover(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<Hover | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
+      const definitions = await this.resolveInAllFlavors(identifier, located.module, workspace);
+      if (!definitions) return null;
 
-    const rootScope = buildScopeTree(identifier.tree);
-    const scope = scopeAt(rootScope, identifier.startPosition);
-    const binding = resolveName(scope, objectNode.text, objectNode.startPosition);
-    if (!binding || binding.kind !== 'import' || binding.importedName) return null;
+      const contents: string[] = [];
+      for (const definition of definitions) {
+        const target = workspace.getDocument(definition.uri);
+        const module = target && (await this.parseDocument(target));
+        if (!module) continue;
+        const point = { row: definition.range.startLineNumber - 1, column: definition.range.startColumn - 1 };
+        // Module locations are empty ranges at 1:1; bindings always span their name.
+        const binding = isEmptyRange(definition) ? null : bindingAt(module.scope, point);
+        if (!binding && !isEmptyRange(definition)) continue;
+        const moduleName = workspace.moduleName?.(module.uri) ?? fileStem(module.uri);
+        contents.push(describeDefinition(module.tree.rootNode, binding, moduleName));
+      }
+      if (contents.length === 0) return null;
+      const { range } = toCellLocation(
+        toLocation(located.module.uri, identifier.startPosition, identifier.endPosition),
+        workspace
+      );
+      return { range, contents };
+    });
+  }
 
-    return this.navigateToImportedSymbol(binding.importPath ?? '', identifier.text, doc, workspace);
+  /**
+   * The outline of `doc` from its scope tree. A notebook cell lists the
+   * symbols defined in that cell.
+   */
+  async provideDocumentSymbols(doc: WorkspaceDocument, workspace: WorkspaceAccess): Promise<DocumentSymbol[] | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, { lineNumber: 1, column: 1 }, workspace);
+      if (!located) return null;
+      const symbols: DocumentSymbol[] = [];
+      for (const symbol of documentSymbols(located.module.scope)) {
+        const { uri, range } = toCellLocation({ uri: located.module.uri, range: symbol.range }, workspace);
+        if (uri === doc.uri) symbols.push(shiftSymbol(symbol, range.startLineNumber - symbol.range.startLineNumber));
+      }
+      return symbols;
+    });
   }
 
-  /** Follow an import binding (`from m import x` / `import m`) used elsewhere in the file. */
-  private async resolveImportedBinding(
-    binding: Binding,
+  /**
+   * Identifiers of `doc` coloured by the binding they resolve to, with imports
+   * and builtins followed to their definitions. The local classification is
+   * read once per parse of the module; range requests and notebook cells take
+   * their lines of it.
+   */
+  async provideSemanticTokens(
     doc: WorkspaceDocument,
-    workspace: WorkspaceAccess
-  ): Promise<DefinitionLocation[] | null> {
-    const importPath = binding.importPath ?? '';
-    if (binding.importedName) {
-      return this.navigateToImportedSymbol(importPath, binding.importedName, doc, workspace);
+    workspace: WorkspaceAccess,
+    range?: DefinitionLocation['range']
+  ): Promise<SemanticToken[] | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, { lineNumber: 1, column: 1 }, workspace);
+      if (!located) return null;
+      const offset = located.point.row;
+      const cell = workspace.getNotebook?.(doc.uri)?.cells?.find(candidate => candidate.uri === doc.uri);
+      const first = range?.startLineNumber ?? 1;
+      const last = Math.min(range?.endLineNumber ?? Infinity, cell?.lineCount ?? Infinity);
+
+      const tokens: SemanticToken[] = [];
+      for (const token of await this.moduleTokens(located.module, workspace, first + offset, last + offset)) {
+        const line = token.range.startLineNumber - offset;
+        tokens.push(
+          offset === 0 ? token : { ...token, range: { ...token.range, startLineNumber: line, endLineNumber: line } }
+        );
+      }
+      return tokens;
+    });
+  }
+
+  /**
+   * Semantic tokens of `module` on lines `first` to `last`. The local
+   * classification is kept per parse, and so are the styles of imports and
+   * builtins, which are only resolved again once a module consulted for them
+   * changed — or, for names that did not resolve, once documents were added
+   * or removed. Call only inside `this.modules.use`.
+   */
+  private async moduleTokens(
+    module: ParsedModule,
+    workspace: WorkspaceAccess,
+    first: number,
+    last: number
+  ): Promise<SemanticToken[]> {
+    let classified = this.tokenClasses.get(module);
+    if (!classified) {
+      classified = classifyModule(module);
+      this.tokenClasses.set(module, classified);
+    }
+    let resolved = this.resolvedStyles.get(module);
+    if (!resolved) {
+      resolved = { imports: new Map(), builtins: new Map() };
+      this.resolvedStyles.set(module, resolved);
+    }
+
+    const documentSet = documentSetOf(workspace.getDocuments?.('python') ?? []);
+    const tokens: SemanticToken[] = [];
+    for (const { range, tokenClass } of classified) {
+      if (range.startLineNumber < first || range.startLineNumber > last) continue;
+      let style: TokenStyle | null;
+      if (tokenClass.kind === 'style') {
+        style = { type: tokenClass.type, modifiers: tokenClass.modifiers };
+      } else if (tokenClass.kind === 'builtin') {
+        const { name } = tokenClass;
+        style = await this.resolvedStyle(
+          resolved.builtins,
+          name,
+          module,
+          workspace,
+          documentSet,
+          recording => this.builtinStyle(name, module, recording)
+        );
+      } else {
+        const { binding, declaration } = tokenClass;
+        const imported = await this.resolvedStyle(
+          resolved.imports,
+          binding,
+          module,
+          workspace,
+          documentSet,
+          recording => this.importStyle(binding, module, recording)
+        );
+        style = imported && withDeclaration(imported, declaration);
+      }
+      if (style) tokens.push({ range, ...style });
     }
-    return this.navigateToModule(importPath, doc, workspace);
+    return tokens;
   }
 
-  /** Navigate to a module file (position 1:1). */
-  private async navigateToModule(
-    importPath: string,
+  /**
+   * The style `cache` holds under `key` while it is current, else the one
+   * `resolve` computes — recording what it consulted. Call only inside
+   * `this.modules.use`.
+   */
+  private async resolvedStyle<K>(
+    cache: Map<K, ResolvedStyle>,
+    key: K,
+    module: ParsedModule,
+    workspace: WorkspaceAccess,
+    documentSet: string,
+    resolve: (workspace: WorkspaceAccess) => Promise<TokenStyle | null>
+  ): Promise<TokenStyle | null> {
+    const cached = cache.get(key);
+    if (cached && isCurrent(cached, workspace, documentSet)) return cached.style;
+    const record: ResolvedStyle = { style: null, dependencies: new Map(), documentSet: null };
+    record.style = await resolve(recordImports(workspace, module.uri, record, documentSet));
+    cache.set(key, record);
+    return record.style;
+  }
+
+  /** The style of builtin `name`, when the bundled `builtins` stub defines it. */
+  private async builtinStyle(
+    name: string,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<TokenStyle | null> {
+    const builtin = await this.findBuiltin(name, module.uri, workspace);
+    const style = builtin?.kind === 'binding' ? bindingStyle(builtin.module.scope, builtin.binding) : null;
+    return style && { ...style, modifiers: [...style.modifiers, 'defaultLibrary'] };
+  }
+
+  /** The style of what an import binds: a module, or the definition it leads to. */
+  private async importStyle(
+    binding: Binding,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<TokenStyle | null> {
+    const resolution = await this.resolveBinding(binding, module, workspace);
+    if (!resolution) return binding.importedName ? null : { type: 'namespace', modifiers: [] };
+    const style: TokenStyle | null =
+      resolution.kind === 'module'
+        ? { type: 'namespace', modifiers: [] }
+        : bindingStyle(resolution.module.scope, resolution.binding);
+    const uri = resolution.kind === 'module' ? resolution.doc.uri : resolution.module.uri;
+    return style && isPythonStdlibUri(uri) ? { ...style, modifiers: [...style.modifiers, 'defaultLibrary'] } : style;
+  }
+
+  /**
+   * Call hierarchy roots for the symbol at `position`: the functions, methods
+   * and classes it resolves to. Other symbols have no calls to show.
+   */
+  async prepareCallHierarchy(
     doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
     workspace: WorkspaceAccess
-  ): Promise<DefinitionLocation[] | null> {
-    const target = await workspace.resolveImport(importPath, doc.uri);
-    if (!target) return null;
-    return [
-      {
-        uri: target.uri,
-        range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 }
+  ): Promise<CallHierarchyItem[] | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
+      const items: CallHierarchyItem[] = [];
+      for (const definition of (await this.resolveInAllFlavors(identifier, located.module, workspace)) ?? []) {
+        const item = await this.callableAt(definition, workspace);
+        if (item) items.push(item);
       }
-    ];
+      return items.length > 0 ? items : null;
+    });
   }
 
   /**
-   * Navigate to `symbolName` exported by module `importPath`. Falls back to
-   * treating `importPath.symbolName` as a module (covers `from pkg import mod`),
-   * then to the module file itself.
+   * Calls resolving to `item` across the workspace's Python documents, grouped
+   * by the function, method or class body making them; top-level calls are
+   * grouped under their module. Calls through aliases and `self.` count too.
    */
-  private async navigateToImportedSymbol(
-    importPath: string,
-    symbolName: string,
-    doc: WorkspaceDocument,
+  async provideIncomingCalls(
+    item: CallHierarchyItem,
     workspace: WorkspaceAccess
-  ): Promise<DefinitionLocation[] | null> {
-    const moduleDoc = await workspace.resolveImport(importPath, doc.uri);
-    if (moduleDoc) {
-      const location = await this.findInModule(moduleDoc, symbolName);
-      if (location) return [location];
-    }
+  ): Promise<CallHierarchyIncomingCall[] | null> {
+    return this.modules.use(async () => {
+      const target = await this.callHierarchyTarget(item, workspace);
+      if (!target?.binding) return null;
+      const site = toLocation(target.module.uri, target.binding.start, target.binding.end);
+      const documents = [...(workspace.getDocuments?.('python') ?? [])];
+      if (!documents.some(document => document.uri === target.module.uri)) {
+        const { uri, source } = target.module;
+        documents.push({ uri, getValue: () => source });
+      }
 
-    // `from pkg import mod` — the imported name may itself be a module.
-    const submodulePath = importPath.endsWith('.')
-      ? `${importPath}${symbolName}`
-      : `${importPath}.${symbolName}`;
-    const submodule = await workspace.resolveImport(submodulePath, doc.uri);
-    if (submodule) {
-      return [
-        {
-          uri: submodule.uri,
-          range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 }
+      const calls = new Map<string, CallHierarchyIncomingCall>();
+      for (const document of documents) {
+        const module = await this.parseDocument(document);
+        if (!module) continue;
+        const candidates = new Set(referenceCandidates(module, new Set([target.binding.name])).map(node => node.id));
+        for (const call of module.tree.rootNode.descendantsOfType('call')) {
+          const callee = call && calleeIdentifier(call);
+          if (!call || !callee || !candidates.has(callee.id)) continue;
+          const resolved = await this.resolveInAllFlavors(callee, module, workspace);
+          if (!resolved?.some(location => sameLocation(location, site))) continue;
+
+          const { uri, range } = toCellLocation(
+            toLocation(module.uri, callee.startPosition, callee.endPosition),
+            workspace
+          );
+          const caller = enclosingDefinition(call);
+          const nameNode = caller?.childForFieldName('name');
+          const binding = nameNode && bindingAt(module.scope, nameNode.startPosition);
+          const from = binding
+            ? this.callHierarchyItem(module, binding, workspace)
+            : moduleItem(uri, workspace.moduleName?.(module.uri) ?? fileStem(module.uri));
+          if (!from) continue;
+          const key = itemKey(from);
+          const existing = calls.get(key);
+          if (existing) existing.fromRanges.push(range);
+          else calls.set(key, { from, fromRanges: [range] });
         }
-      ];
+      }
+      return calls.size > 0 ? [...calls.values()] : null;
+    });
+  }
+
+  /**
+   * The functions, methods and classes `item`'s own body calls, grouped by
+   * callee; calls inside nested definitions belong to those. Callees that do
+   * not resolve to a definition (`print` without stdlib stubs, `handlers[0]()`)
+   * are left out.
+   */
+  async provideOutgoingCalls(
+    item: CallHierarchyItem,
+    workspace: WorkspaceAccess
+  ): Promise<CallHierarchyOutgoingCall[] | null> {
+    return this.modules.use(async () => {
+      const source = await this.callHierarchyTarget(item, workspace);
+      if (!source) return null;
+      const { module, node } = source;
+
+      const calls = new Map<string, CallHierarchyOutgoingCall>();
+      for (const call of callsIn(node)) {
+        const callee = calleeIdentifier(call);
+        if (!callee) continue;
+        const { uri, range } = toCellLocation(
+          toLocation(module.uri, callee.startPosition, callee.endPosition),
+          workspace
+        );
+        // A notebook cell's top-level code is only that cell's.
+        if (uri !== item.uri) continue;
+        for (const definition of (await this.resolveInAllFlavors(callee, module, workspace)) ?? []) {
+          const to = await this.callableAt(definition, workspace);
+          if (!to) continue;
+          const key = itemKey(to);
+          const existing = calls.get(key);
+          if (existing) existing.fromRanges.push(range);
+          else calls.set(key, { to, fromRanges: [range] });
+        }
+      }
+      return calls.size > 0 ? [...calls.values()] : null;
+    });
+  }
+
+  /**
+   * The definition `item` stands for: its module, its `def`/`class` node and
+   * binding, or the module node alone for a module item. Call only inside
+   * `this.modules.use`.
+   */
+  private async callHierarchyTarget(
+    item: CallHierarchyItem,
+    workspace: WorkspaceAccess
+  ): Promise<{ module: ParsedModule; node: Node; binding: Binding | null } | null> {
+    const doc = workspace.getDocument(item.uri);
+    const position = { lineNumber: item.selectionRange.startLineNumber, column: item.selectionRange.startColumn };
+    const located = doc && (await this.locate(doc, position, workspace));
+    if (!located) return null;
+    if (item.kind === 'module') return { module: located.module, node: located.module.tree.rootNode, binding: null };
+    const binding = bindingAt(located.module.scope, located.point);
+    const scope = binding && isCallable(binding) ? definitionScope(located.module.scope, binding) : null;
+    return binding && scope ? { module: located.module, node: scope.node, binding } : null;
+  }
+
+  /**
+   * The call hierarchy item of the function or class `definition` names, or
+   * null when it names something else. Call only inside `this.modules.use`.
+   */
+  private async callableAt(
+    definition: DefinitionLocation,
+    workspace: WorkspaceAccess
+  ): Promise<CallHierarchyItem | null> {
+    const doc = workspace.getDocument(definition.uri);
+    const module = doc && (await this.parseDocument(doc));
+    const point = { row: definition.range.startLineNumber - 1, column: definition.range.startColumn - 1 };
+    const binding = module && bindingAt(module.scope, point);
+    return module && binding && isCallable(binding) ? this.callHierarchyItem(module, binding, workspace) : null;
+  }
+
+  private callHierarchyItem(
+    module: ParsedModule,
+    binding: Binding,
+    workspace: WorkspaceAccess
+  ): CallHierarchyItem | null {
+    const parent = scopeOfBinding(module.scope, binding);
+    const defined = definitionScope(module.scope, binding);
+    if (!parent || !defined) return null;
+    const decorated = defined.node.parent?.type === 'decorated_definition' ? defined.node.parent : defined.node;
+    const selection = toCellLocation(toLocation(module.uri, binding.start, binding.end), workspace);
+    const lines = selection.range.startLineNumber - (binding.start.row + 1);
+    const { range } = toLocation(module.uri, decorated.startPosition, decorated.endPosition);
+    return {
+      name: binding.name,
+      kind: definitionKind(parent, binding, defined),
+      detail: [workspace.moduleName?.(module.uri) ?? fileStem(module.uri), ...containerNames(parent)].join('.'),
+      uri: selection.uri,
+      range: { ...range, startLineNumber: range.startLineNumber + lines, endLineNumber: range.endLineNumber + lines },
+      selectionRange: selection.range
+    };
+  }
+
+  /**
+   * The identifier a rename at `position` would change, or why the symbol
+   * there cannot be renamed.
+   */
+  async prepareRename(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess,
+    token?: CancellationToken
+  ): Promise<RenameLocation | RenameRejection | null> {
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
+      const plan = await this.planRename(identifier, located.module, workspace, token);
+      if ('rejectReason' in plan) return plan;
+      const { range } = toCellLocation(
+        toLocation(located.module.uri, identifier.startPosition, identifier.endPosition),
+        workspace
+      );
+      return { range, text: identifier.text };
+    });
+  }
+
+  /**
+   * Edits renaming the symbol at `position` and every reference to it across
+   * the workspace. Import aliases keep their local name: renaming `x` edits
+   * `from m import x as y` but not `y`, and renaming `y` only touches the
+   * importing module. Invalid identifiers and names that would collide with
+   * or be shadowed by an existing binding are rejected.
+   */
+  async provideRenameEdits(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    newName: string,
+    workspace: WorkspaceAccess,
+    token?: CancellationToken
+  ): Promise<TextEdit[] | RenameRejection | null> {
+    if (!isPythonIdentifier(newName)) {
+      return { rejectReason: `'${newName}' is not a valid Python identifier` };
     }
+    return this.modules.use(async () => {
+      const located = await this.locate(doc, position, workspace);
+      const identifier = located && identifierAt(located.module.tree.rootNode, located.point);
+      if (!located || !identifier) return null;
+      const plan = await this.planRename(identifier, located.module, workspace, token);
+      if ('rejectReason' in plan) return plan;
+      if (newName === plan.name) return [];
 
-    if (moduleDoc) {
-      // Module found but symbol not located — land on the file rather than failing.
-      return [
-        {
-          uri: moduleDoc.uri,
-          range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 }
+      const collision = renameCollision(plan, newName);
+      if (collision) return { rejectReason: collision };
+      return plan.occurrences.map(({ module, node }) => ({
+        ...toCellLocation(toLocation(module.uri, node.startPosition, node.endPosition), workspace),
+        text: newName
+      }));
+    });
+  }
+
+  /**
+   * What renaming the symbol behind `identifier` involves: the identifiers to
+   * change and the scopes that gain the new name. Import aliases (`as y`) are
+   * renamed within their own module only.
+   */
+  private async planRename(
+    identifier: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess,
+    token?: CancellationToken
+  ): Promise<RenamePlan | RenameRejection> {
+    const alias = importAliasAt(identifier, module);
+    if (alias) {
+      const owner = scopeOfBinding(module.scope, alias);
+      return {
+        name: alias.name,
+        occurrences: module.tree.rootNode
+          .descendantsOfType('identifier')
+          .filter((node): node is Node => node !== null && node.text === alias.name)
+          .filter(node => isAliasOccurrence(node, module, alias))
+          .map(node => ({ module, node })),
+        owners: owner ? [{ module, scope: owner, binding: alias }] : []
+      };
+    }
+
+    const found = await this.findReferences(identifier, module, workspace, token);
+    if (!found) return { rejectReason: 'No symbol to rename here' };
+    if (found.symbol.owners.length < found.definitions.length) {
+      return { rejectReason: 'Modules cannot be renamed' };
+    }
+    if (found.symbol.owners.some(owner => owner.binding.kind === 'import')) {
+      return { rejectReason: `The definition of '${identifier.text}' could not be found` };
+    }
+    if (found.definitions.some(definition => isPythonStdlibUri(definition.uri))) {
+      return { rejectReason: 'Builtins and standard-library symbols cannot be renamed' };
+    }
+    const name = [...found.symbol.names][0];
+    // Star imports only see the new name if `__all__` lists it.
+    const exports = found.symbol.owners
+      .filter(owner => owner.scope.kind === 'module')
+      .flatMap(owner => dunderAllEntries(owner.scope, name).map(node => ({ module: owner.module, node })));
+    return {
+      name,
+      // Aliases keep their local name; only the original spelling changes.
+      occurrences: [...found.references.filter(reference => reference.node.text === name), ...exports],
+      owners: found.symbol.owners
+    };
+  }
+
+  /**
+   * The symbol behind `identifier` and every identifier in the workspace's
+   * Python documents resolving to it. Null when `identifier` resolves
+   * nowhere or `token` is cancelled.
+   * Call only inside `this.modules.use`.
+   */
+  private async findReferences(
+    identifier: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess,
+    token?: CancellationToken
+  ): Promise<{
+    definitions: DefinitionLocation[];
+    symbol: SymbolSites;
+    references: Array<{ module: ParsedModule; node: Node }>;
+  } | null> {
+    const definitions = await this.resolveInAllFlavors(identifier, module, workspace);
+    if (!definitions) return null;
+
+    const symbol = await this.symbolSites(definitions, identifier.text, workspace);
+    const documents = [...(workspace.getDocuments?.('python') ?? [])];
+    if (!documents.some(document => document.uri === module.uri)) {
+      const { uri, source } = module;
+      documents.push({ uri, getValue: () => source });
+    }
+
+    const references: Array<{ module: ParsedModule; node: Node }> = [];
+    for (const document of documents) {
+      if (token?.isCancellationRequested) return null;
+      const candidateModule = await this.parseDocument(document);
+      if (!candidateModule) continue;
+      for (const candidate of referenceCandidates(candidateModule, symbol.names)) {
+        if (token?.isCancellationRequested) return null;
+        const resolved = await this.resolveInAllFlavors(candidate, candidateModule, workspace);
+        if (resolved?.some(location => symbol.sites.some(site => sameLocation(site, location)))) {
+          references.push({ module: candidateModule, node: candidate });
         }
+      }
+    }
+    return { definitions, symbol, references };
+  }
+
+  /**
+   * The module `doc` is analysed as — for a notebook cell, the module all its
+   * cells form — and `position` as a 0-based point in it. Call only inside
+   * `this.modules.use`.
+   */
+  private async locate(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<{ module: ParsedModule; point: Point } | null> {
+    const notebook = workspace.getNotebook?.(doc.uri);
+    const cell = notebook?.cells?.find(candidate => candidate.uri === doc.uri);
+    const module = await this.parseDocument(notebook && cell ? notebook : doc);
+    if (!module) return null;
+    return {
+      module,
+      point: { row: position.lineNumber - 1 + (cell?.lineOffset ?? 0), column: position.column - 1 }
+    };
+  }
+
+  /**
+   * Every binding site of the symbols `definitions` point at — all bindings of
+   * the name in the same scope, and for class members the `self.x` attributes
+   * too — plus the names those symbols go by and the scopes holding them.
+   * Definitions that are not bindings (a module) stand for themselves under
+   * `fallbackName`.
+   */
+  private async symbolSites(
+    definitions: DefinitionLocation[],
+    fallbackName: string,
+    workspace: WorkspaceAccess
+  ): Promise<SymbolSites> {
+    const sites: DefinitionLocation[] = [];
+    const names = new Set<string>();
+    const owners: SymbolSites['owners'] = [];
+    for (const definition of definitions) {
+      sites.push(definition);
+      const doc = workspace.getDocument(definition.uri);
+      const module = doc && (await this.parseDocument(doc));
+      const point = { row: definition.range.startLineNumber - 1, column: definition.range.startColumn - 1 };
+      const binding = module && bindingAt(module.scope, point);
+      const owner = binding && scopeOfBinding(module.scope, binding);
+      if (!module || !binding || !owner) {
+        names.add(fallbackName);
+        continue;
+      }
+      names.add(binding.name);
+      owners.push({ module, scope: owner, binding });
+      const related = [
+        ...(owner.bindings.get(binding.name) ?? []),
+        ...(owner.kind === 'class' ? owner.attributes.get(binding.name) ?? [] : [])
       ];
+      for (const site of related) {
+        if (site.kind !== 'import') sites.push(toLocation(module.uri, site.start, site.end));
+      }
     }
-    return null;
+    return { sites, names, owners };
   }
 
-  /** Find a module-level binding in another document. */
-  private async findInModule(
-    moduleDoc: WorkspaceDocument,
-    symbolName: string
-  ): Promise<DefinitionLocation | null> {
-    const parser = await this.getParser();
-    const tree = parser.parse(moduleDoc.getValue());
-    if (!tree) return null;
+  private async resolveAt(
+    point: Point,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    const identifier = identifierAt(module.tree.rootNode, point);
+    if (identifier) return this.resolveInAllFlavors(identifier, module, workspace);
+
+    // A name inside a string annotation (`x: "Order"`) resolves as if unquoted.
+    const stringNode = stringAnnotationAt(module.tree.rootNode, point);
+    const parsed = stringNode && parseStringAnnotation(stringNode, await this.getParser());
+    if (!parsed) return null;
     try {
-      const rootScope = buildScopeTree(tree);
-      const binding = findModuleBinding(rootScope, symbolName);
-      if (!binding) return null;
-      return toLocation(moduleDoc.uri, binding.start, binding.end);
+      const quoted = identifierAt(parsed.expression, point);
+      return quoted ? await this.resolveInAllFlavors(quoted, module, workspace) : null;
     } finally {
-      tree.delete();
+      parsed.tree.delete();
     }
   }
 
-  dispose(): void {
-    this.parserPromise?.then(parser => parser.delete()).catch(() => {});
-    this.parserPromise = null;
+  /**
+   * Resolve `identifier` once per module flavor `stubs` asks for. With
+   * `'both'` the passes only diverge where an import has both a `.py` and a
+   * `.pyi`; identical locations are reported once.
+   */
+  private async resolveInAllFlavors(
+    identifier: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    const stubs = this.options.stubs ?? 'implementation';
+    const flavors: ModuleFlavor[] = stubs === 'both' ? ['implementation', 'stub'] : [stubs];
+    const locations: DefinitionLocation[] = [];
+    for (const flavor of flavors) {
+      const found = await this.resolveDefinition(identifier, module, withFlavor(workspace, flavor));
+      for (const location of found ?? []) {
+        if (!locations.some(existing => sameLocation(existing, location))) locations.push(location);
+      }
+    }
+    return locations.length > 0 ? locations : null;
   }
-}
 
-/** Find the identifier node at/just before the cursor position. */
-function identifierAt(rootNode: Node, point: Point): Node | null {
-  const candidates: Point[] = [point];
-  if (point.column > 0) {
-    // The cursor may sit just past the last character of the word.
-    candidates.push({ row: point.row, column: point.column - 1 });
-  }
-  for (const candidate of candidates) {
-    const node = rootNode.descendantForPosition(candidate);
-    if (node?.type === 'identifier') return node;
+  private async resolveDefinition(
+    identifier: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    // Click inside an import statement → navigate to the module/symbol itself.
+    const importResult = await this.resolveImportClick(identifier, module.uri, workspace);
+    if (importResult) return importResult;
+
+    // `connect(host, timeout=5)` with the cursor on `timeout`.
+    const keywordResult = await this.resolveKeywordArgumentClick(identifier, module, workspace);
+    if (keywordResult !== undefined) return keywordResult;
+
+    // `mod.symbol` / `self.member` with the cursor on the attribute name.
+    const attrResult = await this.resolveAttributeClick(identifier, module, workspace);
+    if (attrResult !== undefined) return attrResult;
+
+    // Plain reference: walk the scope chain. Conditionally defined names
+    // (`try`/`except ImportError`, `if` branches) yield every alternative.
+    const scope = scopeAt(module.scope, identifier.startPosition);
+    const bindings = resolveNameCandidates(scope, identifier.text, identifier.startPosition);
+    if (bindings.length === 0) {
+      // Possibly brought in by `from m import *`, else a builtin.
+      const resolution =
+        (await this.findWildcardExport(module, identifier.text, workspace, new Set())) ??
+        (await this.findBuiltin(identifier.text, module.uri, workspace));
+      return resolution ? [resolutionLocation(resolution)] : null;
+    }
+
+    const locations: DefinitionLocation[] = [];
+    for (const binding of bindings) {
+      if (binding.kind !== 'import') {
+        locations.push(toLocation(module.uri, binding.start, binding.end));
+      } else {
+        locations.push(...((await this.resolveImportedBinding(binding, module.uri, workspace)) ?? []));
+      }
+    }
+    return locations.length > 0 ? locations : null;
   }
-  return null;
-}
 
-function ancestorOfType(node: Node, types: string[]): Node | null {
-  let current = node.parent;
-  while (current) {
-    if (types.includes(current.type)) return current;
-    current = current.parent;
+  /** Parse a document through the module cache. Call only inside `this.modules.use`. */
+  private async parseDocument(doc: WorkspaceDocument): Promise<ParsedModule | null> {
+    const parser = await this.getParser();
+    return this.modules.get(doc.uri, doc.getValue(), source => parser.parse(source));
   }
-  return null;
-}
+
+  /**
+   * Resolve a click on a name inside an `import`/`from … import` statement.
+   * Returns null when the identifier is not part of an import statement.
+   */
+  private async resolveImportClick(
+    identifier: Node,
+    fromUri: string,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    const importStmt = ancestorOfType(identifier, ['import_statement', 'import_from_statement']);
+    if (!importStmt) return null;
+
+    if (importStmt.type === 'import_statement') {
+      // `import a.b.c [as d]` — each segment navigates to its own module
+      // (`a`, `a.b`, `a.b.c`); the alias to the full path.
+      const aliased = ancestorOfType(identifier, ['aliased_import']);
+      const dotted = ancestorOfType(identifier, ['dotted_name']);
+      if (dotted) return this.navigateToModule(modulePathUpTo(dotted, identifier), fromUri, workspace);
+      const fullPath = aliased?.childForFieldName('name')?.text ?? identifier.text;
+      return this.navigateToModule(fullPath, fromUri, workspace);
+    }
+
+    const moduleNode = importStmt.childForFieldName('module_name');
+    const importPath = moduleNode?.text ?? '';
+
+    if (moduleNode && isInside(identifier, moduleNode)) {
+      // Click on a segment of the module part of `from a.b import x`.
+      return this.navigateToModule(modulePathUpTo(moduleNode, identifier), fromUri, workspace);
+    }
+
+    // Click on an imported name (or its alias).
+    const aliased = ancestorOfType(identifier, ['aliased_import']);
+    const importedName = aliased?.childForFieldName('name')?.text ?? identifier.text;
+    return this.navigateToImportedSymbol(importPath, importedName, fromUri, workspace);
+  }
+
+  /**
+   * Resolve a click on a keyword argument's name to the matching parameter
+   * of the callee: a function (local, imported or a method) or, for a class,
+   * its `__init__` found along the MRO. Returns undefined when the identifier
+   * is not a keyword argument name; null when the callee or parameter cannot
+   * be found — never a same-named variable.
+   */
+  private async resolveKeywordArgumentClick(
+    identifier: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null | undefined> {
+    const keyword = identifier.parent;
+    if (keyword?.type !== 'keyword_argument') return undefined;
+    if (keyword.childForFieldName('name')?.id !== identifier.id) return undefined;
+    const call = keyword.parent?.parent;
+    const fn = call?.type === 'call' ? call.childForFieldName('function') : null;
+    if (!fn) return undefined;
+
+    const scope = scopeAt(module.scope, fn.startPosition);
+    const callee = await this.evaluate(fn, module, scope, workspace);
+    if (callee?.kind === 'class') {
+      const field = await this.findInitField(callee.cls, identifier.text, workspace);
+      if (field !== undefined) return field ? [resolutionLocation(field)] : null;
+    }
+    const target = callee ? await this.calledFunction(callee, workspace) : null;
+    const parameter = target?.scope.bindings
+      .get(identifier.text)
+      ?.find(binding => binding.kind === 'parameter');
+    return target && parameter ? [toLocation(target.module.uri, parameter.start, parameter.end)] : null;
+  }
+
+  /**
+   * The class-body field `name` of a class whose `__init__` is generated from
+   * its fields (see {@link synthesizesInit}), looked up along the MRO.
+   * Undefined when the nearest `__init__` along the MRO is written out.
+   */
+  private async findInitField(
+    cls: ClassRef,
+    name: string,
+    workspace: WorkspaceAccess
+  ): Promise<Resolution | null | undefined> {
+    for (const entry of await this.linearize(cls, workspace, new Set())) {
+      if (entry.scope.bindings.has('__init__')) return undefined;
+      if (synthesizesInit(entry.scope)) {
+        const field = await this.findMember(cls, name, workspace, 0);
+        return field?.kind === 'binding' && field.binding.kind === 'variable' ? field : null;
+      }
+    }
+    return undefined;
+  }
+
+  /** The function that runs when `callee` is called: itself, `__init__` for classes, `__call__` for instances. */
+  private async calledFunction(
+    callee: Value,
+    workspace: WorkspaceAccess
+  ): Promise<{ module: ParsedModule; scope: Scope } | null> {
+    let method: Resolution | null = null;
+    switch (callee.kind) {
+      case 'function':
+        return callee;
+      case 'class':
+        method = await this.findMember(callee.cls, '__init__', workspace, callee.mroStart);
+        break;
+      case 'instance':
+        method = await this.findMember(callee.cls, '__call__', workspace, 0);
+        break;
+      default:
+        return null;
+    }
+    if (method?.kind !== 'binding' || method.binding.kind !== 'function') return null;
+    const scope = definitionScope(method.module.scope, method.binding);
+    return scope ? { module: method.module, scope } : null;
+  }
+
+  /**
+   * Resolve an attribute click: `mod.symbol` where `mod` is an imported
+   * module, `self.member`/`cls.member` inside methods, `Class.member`,
+   * `super().member`, and `obj.member` where `obj`'s class can be inferred.
+   * Class members are looked up along the MRO, across files.
+   * Returns undefined when the identifier is not an attribute access (caller
+   * should continue with normal resolution); null when it is one but cannot
+   * be resolved.
+   */
+  private async resolveAttributeClick(
+    identifier: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null | undefined> {
+    const parent = identifier.parent;
+    if (parent?.type !== 'attribute') return undefined;
+    if (parent.childForFieldName('attribute')?.id !== identifier.id) return undefined;
+
+    const objectNode = parent.childForFieldName('object');
+    if (!objectNode) return null;
+
+    const scope = scopeAt(module.scope, identifier.startPosition);
+    const value = await this.evaluate(objectNode, module, scope, workspace);
+    if (!value) return null;
+
+    if (value.kind === 'module') {
+      return this.navigateToImportedSymbol(value.importPath, identifier.text, value.fromUri, workspace);
+    }
+    const member = await this.findAttribute(value, identifier.text, workspace);
+    return member ? [resolutionLocation(member)] : null;
+  }
+
+  /**
+   * What an expression denotes, as far as attribute navigation is concerned:
+   * a module, a class, an instance of a class, or a function. Instances come
+   * from a small amount of local inference — constructor calls, annotations,
+   * and return annotations of resolved functions. Null whenever that cannot
+   * be determined without guessing.
+   */
+  private async evaluate(
+    node: Node,
+    module: ParsedModule,
+    scope: Scope,
+    workspace: WorkspaceAccess,
+    depth = 0
+  ): Promise<Value | null> {
+    if (depth > MAX_INFERENCE_DEPTH) return null;
+
+    switch (node.type) {
+      case 'identifier': {
+        const binding = resolveName(scope, node.text, node.startPosition);
+        if (!binding) {
+          const builtin = await this.findBuiltin(node.text, module.uri, workspace);
+          return builtin ? this.valueOf(builtin, workspace, depth) : null;
+        }
+
+        const method = selfMethodScope(scope, binding);
+        const methodClass = method && owningClass(method);
+        if (method && methodClass) {
+          const cls = { module, scope: methodClass };
+          return decoratorNames(method).includes('classmethod')
+            ? { kind: 'class', cls, mroStart: 0 }
+            : { kind: 'instance', cls };
+        }
+
+        if (binding.kind === 'import' && !binding.importedName) {
+          return { kind: 'module', importPath: binding.importPath ?? '', fromUri: module.uri };
+        }
+        const resolution = await this.resolveBinding(binding, module, workspace);
+        return resolution ? this.valueOf(resolution, workspace, depth) : null;
+      }
+
+      case 'attribute': {
+        // `mod.Class`, `Outer.Inner`, `obj.attr`.
+        const objectNode = node.childForFieldName('object');
+        const attrNode = node.childForFieldName('attribute');
+        if (!objectNode || !attrNode) return null;
+        const object = await this.evaluate(objectNode, module, scope, workspace, depth + 1);
+        const resolution = object ? await this.findAttribute(object, attrNode.text, workspace) : null;
+        return resolution ? this.valueOf(resolution, workspace, depth) : null;
+      }
+
+      case 'call': {
+        const fn = node.childForFieldName('function');
+        if (!fn) return null;
+        if (fn.type === 'identifier' && fn.text === 'super' && !resolveName(scope, 'super', fn.startPosition)) {
+          return this.evaluateSuper(node, module, scope, workspace, depth);
+        }
+
+        const callee = await this.evaluate(fn, module, scope, workspace, depth + 1);
+        if (callee?.kind === 'class') return { kind: 'instance', cls: callee.cls };
+        if (callee?.kind === 'function') {
+          const returnType = callee.scope.node.childForFieldName('return_type');
+          return returnType
+            ? this.evaluateAnnotation(returnType, callee.module, workspace, depth + 1)
+            : null;
+        }
+        return null;
+      }
+
+      case 'parenthesized_expression': {
+        const inner = node.namedChildren[0];
+        return inner ? this.evaluate(inner, module, scope, workspace, depth) : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /** `super()` inside a method, or the explicit `super(Class, obj)` form. */
+  private async evaluateSuper(
+    call: Node,
+    module: ParsedModule,
+    scope: Scope,
+    workspace: WorkspaceAccess,
+    depth: number
+  ): Promise<Value | null> {
+    const firstArg = call.childForFieldName('arguments')?.namedChildren[0];
+    if (firstArg) {
+      const explicit = await this.evaluate(firstArg, module, scope, workspace, depth + 1);
+      return explicit?.kind === 'class' ? { kind: 'class', cls: explicit.cls, mroStart: 1 } : null;
+    }
+    const classScope = enclosingMethodClass(scope);
+    return classScope ? { kind: 'class', cls: { module, scope: classScope }, mroStart: 1 } : null;
+  }
+
+  /** The value a resolved name denotes; variables and attributes go through inference. */
+  private async valueOf(
+    resolution: Resolution,
+    workspace: WorkspaceAccess,
+    depth: number
+  ): Promise<Value | null> {
+    if (resolution.kind === 'module') {
+      return { kind: 'module', importPath: resolution.importPath, fromUri: resolution.fromUri };
+    }
+    const { module, binding } = resolution;
+    switch (binding.kind) {
+      case 'class': {
+        const cls = classRef(resolution);
+        return cls ? { kind: 'class', cls, mroStart: 0 } : null;
+      }
+      case 'function': {
+        const scope = definitionScope(module.scope, binding);
+        return scope ? { kind: 'function', module, scope } : null;
+      }
+      case 'variable': {
+        // Enum members are instances of their class: `Color.RED.label()`.
+        const owner = scopeOfBinding(module.scope, binding);
+        if (owner?.kind === 'class' && (await this.isEnum({ module, scope: owner }, workspace))) {
+          return { kind: 'instance', cls: { module, scope: owner } };
+        }
+        return this.inferBinding(module, binding, workspace, depth + 1);
+      }
+      case 'parameter':
+      case 'attribute':
+        return this.inferBinding(module, binding, workspace, depth + 1);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Infer what a variable, parameter or attribute holds from every binding of
+   * that name in its scope. A declared annotation wins; otherwise all assigned
+   * values (ignoring `None`) must agree. Any binding whose type cannot be read
+   * makes the whole inference give up.
+   */
+  private async inferBinding(
+    module: ParsedModule,
+    binding: Binding,
+    workspace: WorkspaceAccess,
+    depth: number
+  ): Promise<Value | null> {
+    const owner = scopeOfBinding(module.scope, binding);
+    const table = binding.kind === 'attribute' ? owner?.attributes : owner?.bindings;
+    const siblings = table?.get(binding.name) ?? [binding];
+
+    const sources: TypeSource[] = [];
+    for (const sibling of siblings) {
+      const source = typeSourceOf(module.tree.rootNode, sibling);
+      if (!source) return null;
+      sources.push(source);
+    }
+
+    const declared = sources.find(source => source.annotation)?.annotation;
+    if (declared) return this.evaluateAnnotation(declared, module, workspace, depth);
+
+    let inferred: Value | null = null;
+    for (const { value } of sources) {
+      if (!value || isNone(value)) continue;
+      const scope = scopeAt(module.scope, value.startPosition);
+      const candidate = await this.evaluate(value, module, scope, workspace, depth + 1);
+      if (!candidate || (inferred && !sameValue(inferred, candidate))) return null;
+      inferred = candidate;
+    }
+    return inferred;
+  }
+
+  /** The instance type an annotation (or return annotation) declares. */
+  private async evaluateAnnotation(
+    annotation: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess,
+    depth: number
+  ): Promise<Value | null> {
+    const classNode = annotatedClass(annotation);
+    if (!classNode) return null;
+    if (classNode.type === 'string') {
+      // Forward reference: evaluate the expression the string spells out.
+      const parsed = parseStringAnnotation(classNode, await this.getParser());
+      if (!parsed) return null;
+      try {
+        const inner = annotatedClass(parsed.expression);
+        return inner && inner.type !== 'string'
+          ? await this.evaluateAnnotation(inner, module, workspace, depth + 1)
+          : null;
+      } finally {
+        parsed.tree.delete();
+      }
+    }
+    const scope = scopeAt(module.scope, classNode.startPosition);
+    const value = await this.evaluate(classNode, module, scope, workspace, depth + 1);
+    return value?.kind === 'class' ? { kind: 'instance', cls: value.cls } : null;
+  }
+
+  /** The value whose type {@link provideTypeDefinition} jumps to. */
+  private async typeOf(identifier: Node, module: ParsedModule, workspace: WorkspaceAccess): Promise<Value | null> {
+    const scope = scopeAt(module.scope, identifier.startPosition);
+    const parent = identifier.parent;
+    let resolution: Resolution | null;
+    if (parent?.type === 'attribute' && parent.childForFieldName('attribute')?.id === identifier.id) {
+      const objectNode = parent.childForFieldName('object');
+      const object = objectNode && (await this.evaluate(objectNode, module, scope, workspace));
+      resolution = object ? await this.findAttribute(object, identifier.text, workspace) : null;
+    } else {
+      const binding =
+        bindingAt(module.scope, identifier.startPosition) ??
+        resolveName(scope, identifier.text, identifier.startPosition);
+      if (binding && selfMethodScope(scope, binding)) return this.evaluate(identifier, module, scope, workspace);
+      resolution = binding
+        ? await this.resolveBinding(binding, module, workspace)
+        : await this.findBuiltin(identifier.text, module.uri, workspace);
+    }
+    if (!resolution) return null;
+
+    if (resolution.kind === 'binding') {
+      const { module: target, binding } = resolution;
+      const annotation =
+        binding.kind === 'function'
+          ? definitionScope(target.scope, binding)?.node.childForFieldName('return_type')
+          : declaredAnnotation(target, binding);
+      if (annotation) return this.evaluateTypeAnnotation(annotation, target, workspace);
+      if (binding.kind === 'function') return null;
+    }
+    return this.valueOf(resolution, workspace, 0);
+  }
+
+  /** {@link evaluateAnnotation} after unwrapping containers with {@link elementAnnotation}. */
+  private async evaluateTypeAnnotation(
+    annotation: Node,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<Value | null> {
+    const element = elementAnnotation(annotation);
+    if (element.type !== 'string') return this.evaluateAnnotation(element, module, workspace, 0);
+
+    const parsed = parseStringAnnotation(element, await this.getParser());
+    if (!parsed) return null;
+    try {
+      const inner = elementAnnotation(parsed.expression);
+      return inner.type === 'string' ? null : await this.evaluateAnnotation(inner, module, workspace, 0);
+    } finally {
+      parsed.tree.delete();
+    }
+  }
+
+  /** Look `name` up on a module, class, or instance value. */
+  private async findAttribute(
+    object: Value,
+    name: string,
+    workspace: WorkspaceAccess
+  ): Promise<Resolution | null> {
+    switch (object.kind) {
+      case 'module': {
+        const moduleDoc = await workspace.resolveImport(object.importPath, object.fromUri);
+        const exported = moduleDoc
+          ? await this.findExport(moduleDoc, name, workspace, new Set())
+          : null;
+        return exported ?? this.findSubmodule(object.importPath, name, object.fromUri, workspace);
+      }
+      case 'class':
+        return this.findMember(object.cls, name, workspace, object.mroStart);
+      case 'instance':
+        return this.findMember(object.cls, name, workspace, 0);
+      default:
+        return null;
+    }
+  }
+
+  /** Follow a binding through imports to where the name is actually defined. */
+  private async resolveBinding(
+    binding: Binding,
+    module: ParsedModule,
+    workspace: WorkspaceAccess
+  ): Promise<Resolution | null> {
+    if (binding.kind !== 'import') return { kind: 'binding', module, binding };
+
+    const importPath = binding.importPath ?? '';
+    if (!binding.importedName) {
+      const doc = await workspace.resolveImport(importPath, module.uri);
+      return doc ? { kind: 'module', importPath, fromUri: module.uri, doc } : null;
+    }
+
+    const moduleDoc = await workspace.resolveImport(importPath, module.uri);
+    if (moduleDoc) {
+      const resolution = await this.findExport(moduleDoc, binding.importedName, workspace, new Set());
+      if (resolution) return resolution;
+    }
+    return this.findSubmodule(importPath, binding.importedName, module.uri, workspace);
+  }
+
+  /**
+   * Find `name` on a class or its bases, walking the MRO from `mroStart`
+   * (1 skips the class itself, as `super()` does).
+   */
+  private async findMember(
+    cls: ClassRef,
+    name: string,
+    workspace: WorkspaceAccess,
+    mroStart: number
+  ): Promise<Resolution | null> {
+    const mro = await this.linearize(cls, workspace, new Set());
+    for (const candidate of mro.slice(mroStart)) {
+      const binding = findClassMember(candidate.scope, name);
+      if (binding) return { kind: 'binding', module: candidate.module, binding };
+    }
+    return null;
+  }
+
+  /** Whether `cls` is an enum: some class along its MRO derives from an `enum` base. */
+  private async isEnum(cls: ClassRef, workspace: WorkspaceAccess): Promise<boolean> {
+    const mro = await this.linearize(cls, workspace, new Set());
+    return mro.some(entry => isEnumClass(entry.scope));
+  }
+
+  /**
+   * C3 linearization (Python's MRO) of a class. Bases that cannot be resolved
+   * — builtins, missing files, computed expressions — are left out; if the
+   * remaining hierarchy has no consistent C3 order, a depth-first order is
+   * used instead. `path` guards against inheritance cycles.
+   */
+  private async linearize(
+    cls: ClassRef,
+    workspace: WorkspaceAccess,
+    path: Set<string>
+  ): Promise<ClassRef[]> {
+    const key = classKey(cls);
+    if (path.has(key) || path.size >= MAX_CLASS_DEPTH || !cls.scope.parent) return [cls];
+    path.add(key);
+    try {
+      const bases: ClassRef[] = [];
+      for (const baseNode of baseClassNodes(cls.scope)) {
+        const value = await this.evaluate(baseNode, cls.module, cls.scope.parent, workspace);
+        if (value?.kind === 'class') bases.push(value.cls);
+      }
+      const baseMros: ClassRef[][] = [];
+      for (const base of bases) {
+        baseMros.push(await this.linearize(base, workspace, path));
+      }
+      const merged = c3Merge([...baseMros, bases]) ?? dedupeClasses(baseMros.flat());
+      return [cls, ...merged];
+    } finally {
+      path.delete(key);
+    }
+  }
+
+  /** Follow an import binding (`from m import x` / `import m`) used elsewhere in the file. */
+  private async resolveImportedBinding(
+    binding: Binding,
+    fromUri: string,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    const importPath = binding.importPath ?? '';
+    if (binding.importedName) {
+      return this.navigateToImportedSymbol(importPath, binding.importedName, fromUri, workspace);
+    }
+    return this.navigateToModule(importPath, fromUri, workspace);
+  }
+
+  /** Navigate to a module file (position 1:1). */
+  private async navigateToModule(
+    importPath: string,
+    fromUri: string,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    const target = await workspace.resolveImport(importPath, fromUri);
+    return target ? [moduleStart(target.uri)] : null;
+  }
+
+  /**
+   * Navigate to `symbolName` exported by module `importPath`. Re-exports
+   * (`from .impl import Widget` in a package `__init__`) are followed to the
+   * real definition. Falls back to treating `importPath.symbolName` as a
+   * module (covers `from pkg import mod`), then to the module file itself.
+   */
+  private async navigateToImportedSymbol(
+    importPath: string,
+    symbolName: string,
+    fromUri: string,
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null> {
+    const moduleDoc = await workspace.resolveImport(importPath, fromUri);
+    if (moduleDoc) {
+      const resolutions = await this.findExports(moduleDoc, symbolName, workspace, new Set());
+      if (resolutions.length > 0) return resolutions.map(resolutionLocation);
+    }
+
+    const submodule = await this.findSubmodule(importPath, symbolName, fromUri, workspace);
+    if (submodule) return [resolutionLocation(submodule)];
+
+    if (moduleDoc) {
+      // Module found but symbol not located — land on the file rather than failing.
+      return [moduleStart(moduleDoc.uri)];
+    }
+    return null;
+  }
+
+  /**
+   * Locate the definition behind module-level name `symbolName` in
+   * `moduleDoc`, chasing import bindings transitively. `visited` holds
+   * `uri#name` keys already on the chain; a repeat (import cycle) or a chain
+   * longer than {@link MAX_REEXPORT_HOPS} yields null so the caller can try
+   * its own fallbacks. Of conditionally defined names, the last definition.
+   */
+  private async findExport(
+    moduleDoc: WorkspaceDocument,
+    symbolName: string,
+    workspace: WorkspaceAccess,
+    visited: Set<string>
+  ): Promise<Resolution | null> {
+    const resolutions = await this.findExports(moduleDoc, symbolName, workspace, visited);
+    return resolutions[resolutions.length - 1] ?? null;
+  }
+
+  /**
+   * Like {@link findExport}, but every definition a conditionally defined
+   * name may have (`try`/`except ImportError` fallbacks, `if` branches), each
+   * followed along its own chain, in document order. Empty where
+   * {@link findExport} yields null.
+   */
+  private async findExports(
+    moduleDoc: WorkspaceDocument,
+    symbolName: string,
+    workspace: WorkspaceAccess,
+    visited: Set<string>
+  ): Promise<Resolution[]> {
+    const key = `${moduleDoc.uri}#${symbolName}`;
+    if (visited.has(key) || visited.size >= MAX_REEXPORT_HOPS) return [];
+    visited.add(key);
+
+    const module = await this.parseDocument(moduleDoc);
+    if (!module) return [];
+    const bindings = findModuleBindings(module.scope, symbolName);
+    if (bindings.length === 0) {
+      const wildcard = await this.findWildcardExport(module, symbolName, workspace, visited);
+      return wildcard ? [wildcard] : [];
+    }
+
+    const resolutions: Resolution[] = [];
+    for (const binding of bindings) {
+      const chain = bindings.length > 1 ? new Set(visited) : visited;
+      resolutions.push(...(await this.followExport(module, binding, workspace, chain)));
+    }
+    return resolutions;
+  }
+
+  /** Where module-level `binding` of `module` leads, for {@link findExports}. */
+  private async followExport(
+    module: ParsedModule,
+    binding: Binding,
+    workspace: WorkspaceAccess,
+    visited: Set<string>
+  ): Promise<Resolution[]> {
+    if (binding.kind !== 'import') return [{ kind: 'binding', module, binding }];
+
+    const importPath = binding.importPath ?? '';
+    const target = await workspace.resolveImport(importPath, module.uri);
+    if (binding.importedName) {
+      // `from m import x [as y]` — continue the chain in `m`, or in submodule `m.x`.
+      if (target) {
+        const resolutions = await this.findExports(target, binding.importedName, workspace, visited);
+        if (resolutions.length > 0) return resolutions;
+      }
+      const submodule = await this.findSubmodule(importPath, binding.importedName, module.uri, workspace);
+      if (submodule) return [submodule];
+    } else if (target) {
+      // `import a.b as x` re-exports a module.
+      return [{ kind: 'module', importPath, fromUri: module.uri, doc: target }];
+    }
+
+    // The chain is broken (unresolvable target) — the re-export line is the best we have.
+    return [{ kind: 'binding', module, binding }];
+  }
+
+  /** `from pkg import mod` — the imported name may itself be a module. */
+  private async findSubmodule(
+    importPath: string,
+    symbolName: string,
+    fromUri: string,
+    workspace: WorkspaceAccess
+  ): Promise<Resolution | null> {
+    const submodulePath = importPath.endsWith('.')
+      ? `${importPath}${symbolName}`
+      : `${importPath}.${symbolName}`;
+    const doc = await workspace.resolveImport(submodulePath, fromUri);
+    return doc ? { kind: 'module', importPath: submodulePath, fromUri, doc } : null;
+  }
+
+  /**
+   * Locate `symbolName` among the names `module` pulls in with
+   * `from m import *`. Later star imports shadow earlier ones; a target only
+   * contributes names its `__all__` (or the no-underscore rule) exports.
+   */
+  private async findWildcardExport(
+    module: ParsedModule,
+    symbolName: string,
+    workspace: WorkspaceAccess,
+    visited: Set<string>
+  ): Promise<Resolution | null> {
+    for (const wildcard of [...module.scope.wildcardImports].reverse()) {
+      const target = await workspace.resolveImport(wildcard.importPath, module.uri);
+      if (!target) continue;
+      const targetModule = await this.parseDocument(target);
+      if (!targetModule || !isWildcardExported(targetModule.scope, symbolName)) continue;
+
+      const resolution = await this.findExport(target, symbolName, workspace, visited);
+      if (resolution) return resolution;
+    }
+    return null;
+  }
+
+  /** `name` in the bundled `builtins` stub, when `stdlibStubs` is enabled. */
+  private async findBuiltin(
+    name: string,
+    fromUri: string,
+    workspace: WorkspaceAccess
+  ): Promise<Resolution | null> {
+    if (!this.options.stdlibStubs) return null;
+    const doc = await workspace.resolveImport('builtins', fromUri);
+    const builtins = doc && (await this.parseDocument(doc));
+    if (!builtins) return null;
+    // A stub's own imports (`from typing import Any`) are not re-exported.
+    const binding = findModuleBinding(builtins.scope, name);
+    return binding && binding.kind !== 'import' ? { kind: 'binding', module: builtins, binding } : null;
+  }
+
+  dispose(): void {
+    this.modules.clear();
+    this.classIndex.clear();
+    this.parserPromise?.then(parser => parser.delete()).catch(() => {});
+    this.parserPromise = null;
+  }
+}
+
+/** The binding sites of a symbol, the names it goes by, and the scopes holding it. */
+interface SymbolSites {
+  sites: DefinitionLocation[];
+  names: Set<string>;
+  /** Per definition that is a binding: the binding and the scope holding it. */
+  owners: Array<{ module: ParsedModule; scope: Scope; binding: Binding }>;
+}
+
+/** Nodes a rename changes, and the scopes that gain the new name. */
+interface RenamePlan {
+  name: string;
+  occurrences: Array<{ module: ParsedModule; node: Node }>;
+  owners: SymbolSites['owners'];
+}
+
+/** Where a name ends up once imports are followed: a binding, or a whole module. */
+type Resolution =
+  | { kind: 'binding'; module: ParsedModule; binding: Binding }
+  | { kind: 'module'; importPath: string; fromUri: string; doc: WorkspaceDocument };
+
+/** Classes of the workspace and, by base class key, their direct subclasses. */
+interface ClassHierarchy {
+  classes: IndexedClass[];
+  subclasses: Map<string, IndexedClass[]>;
+}
+
+/**
+ * A class as the hierarchy remembers it between requests: keys and names
+ * only, so no tree-sitter node outlives its request.
+ */
+interface IndexedClass {
+  key: string;
+  uri: string;
+  /** Keys of the bases that resolved to classes. */
+  baseKeys: string[];
+  protocol: boolean;
+  /** Names the class body binds to functions. */
+  methods: string[];
+}
+
+/**
+ * What a cached cross-file result was computed from: the modules its imports
+ * landed on (URI → source) and, when something did not resolve, the tracked
+ * documents at the time ({@link documentSetOf}); null when everything did.
+ */
+interface ResolutionRecord {
+  dependencies: Map<string, string>;
+  documentSet: string | null;
+}
+
+/** The classes of one document version, valid while what resolved their bases is current. */
+interface ClassIndexEntry extends ResolutionRecord {
+  source: string;
+  classes: IndexedClass[];
+}
+
+/** The resolved style of an import or builtin token. */
+interface ResolvedStyle extends ResolutionRecord {
+  style: TokenStyle | null;
+}
+
+/** A class definition: its scope within a parsed module. */
+interface ClassRef {
+  module: ParsedModule;
+  scope: Scope;
+}
+
+/**
+ * Result of {@link PythonAnalyzer.evaluate}. Modules are kept as an import
+ * path so `pkg.sub` can be derived from `pkg`; class objects carry the MRO
+ * index member lookup starts from (1 for `super()`).
+ */
+type Value =
+  | { kind: 'module'; importPath: string; fromUri: string }
+  | { kind: 'class'; cls: ClassRef; mroStart: number }
+  | { kind: 'instance'; cls: ClassRef }
+  | { kind: 'function'; module: ParsedModule; scope: Scope };
+
+/**
+ * Upper bound on re-export hops followed from one imported name. Real facade
+ * chains are a handful of packages deep; this only guards pathological input.
+ */
+const MAX_REEXPORT_HOPS = 16;
+
+/** Upper bound on inheritance depth followed when computing an MRO. */
+const MAX_CLASS_DEPTH = 32;
+
+/** Upper bound on nested evaluation steps (guards `a = b; b = a` and deep chains). */
+const MAX_INFERENCE_DEPTH = 24;
+
+function classRef(resolution: Resolution): ClassRef | null {
+  if (resolution.kind !== 'binding' || resolution.binding.kind !== 'class') return null;
+  const scope = definitionScope(resolution.module.scope, resolution.binding);
+  return scope ? { module: resolution.module, scope } : null;
+}
+
+function classKey(cls: ClassRef): string {
+  const { row, column } = cls.scope.node.startPosition;
+  return `${cls.module.uri}#${row}:${column}`;
+}
+
+/** Class scopes anywhere below `scope`, nested classes included. */
+function classScopes(scope: Scope): Scope[] {
+  return scope.children.flatMap(child => [...(child.kind === 'class' ? [child] : []), ...classScopes(child)]);
+}
+
+/**
+ * Transitive subclasses of `cls`, and for a protocol also the classes whose
+ * own bodies define every one of its methods (dunders other than `__call__`
+ * aside).
+ */
+function implementationsOf(cls: ClassRef, hierarchy: ClassHierarchy): IndexedClass[] {
+  const found: IndexedClass[] = [];
+  const seen = new Set([classKey(cls)]);
+  const pending = [classKey(cls)];
+  for (let current = pending.pop(); current; current = pending.pop()) {
+    for (const subclass of hierarchy.subclasses.get(current) ?? []) {
+      if (seen.has(subclass.key)) continue;
+      seen.add(subclass.key);
+      found.push(subclass);
+      pending.push(subclass.key);
+    }
+  }
+
+  if (!isProtocolClass(cls.scope)) return found;
+  const methods = [...cls.scope.bindings.entries()]
+    .filter(([name, bindings]) => (!name.startsWith('__') || name === '__call__') && bindings.some(isFunction))
+    .map(([name]) => name);
+  if (methods.length === 0) return found;
+  for (const candidate of hierarchy.classes) {
+    if (seen.has(candidate.key) || candidate.protocol) continue;
+    if (methods.every(name => candidate.methods.includes(name))) {
+      seen.add(candidate.key);
+      found.push(candidate);
+    }
+  }
+  return found;
+}
+
+function isFunction(binding: Binding): boolean {
+  return binding.kind === 'function';
+}
+
+/** The class of the method the scope belongs to — where zero-argument `super()` looks. */
+function enclosingMethodClass(scope: Scope): Scope | null {
+  for (let current: Scope | null = scope; current; current = current.parent) {
+    const cls = owningClass(current);
+    if (cls) return cls;
+  }
+  return null;
+}
+
+/** C3 merge; null when the sequences admit no consistent order. */
+function c3Merge(sequences: ClassRef[][]): ClassRef[] | null {
+  const pending = sequences.map(sequence => [...sequence]).filter(s => s.length > 0);
+  const result: ClassRef[] = [];
+  while (pending.length > 0) {
+    const head = pending
+      .map(sequence => sequence[0])
+      .find(candidate =>
+        pending.every(sequence => !sequence.slice(1).some(c => classKey(c) === classKey(candidate)))
+      );
+    if (!head) return null;
+    result.push(head);
+    for (const sequence of pending) {
+      if (classKey(sequence[0]) === classKey(head)) sequence.shift();
+    }
+    for (let i = pending.length - 1; i >= 0; i--) {
+      if (pending[i].length === 0) pending.splice(i, 1);
+    }
+  }
+  return result;
+}
+
+function sameValue(a: Value, b: Value): boolean {
+  switch (a.kind) {
+    case 'module':
+      return b.kind === 'module' && a.importPath === b.importPath && a.fromUri === b.fromUri;
+    case 'class':
+      return b.kind === 'class' && classKey(a.cls) === classKey(b.cls) && a.mroStart === b.mroStart;
+    case 'instance':
+      return b.kind === 'instance' && classKey(a.cls) === classKey(b.cls);
+    case 'function':
+      return b.kind === 'function' && a.scope.node.id === b.scope.node.id && a.module === b.module;
+  }
+}
+
+function dedupeClasses(classes: ClassRef[]): ClassRef[] {
+  const seen = new Set<string>();
+  return classes.filter(cls => {
+    const key = classKey(cls);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Why renaming to `newName` would change meaning, or null when it is safe:
+ * a scope holding the symbol already binds the new name, an import would
+ * rebind an existing name, or a reference would be captured by a binding of
+ * the new name that is visible from it.
+ */
+function renameCollision(plan: RenamePlan, newName: string): string | null {
+  for (const { scope } of plan.owners) {
+    if (scope.bindings.has(newName) || (scope.kind === 'class' && scope.attributes.has(newName))) {
+      return `'${newName}' is already defined in the same scope`;
+    }
+  }
+  for (const { module, node } of plan.occurrences) {
+    if (node.type !== 'identifier') continue; // `__all__` entries
+    const scope = scopeAt(module.scope, node.startPosition);
+    const declared = bindingAt(module.scope, node.startPosition);
+    if (ancestorOfType(node, IMPORT_STATEMENTS)) {
+      // `from m import x` binds the new name in the importing scope; `x as y` does not.
+      if (declared && scope.bindings.has(newName)) return `'${newName}' is already defined in ${module.uri}`;
+      continue;
+    }
+    // Members, keywords and binding sites are covered by the owner check.
+    if (!isPlainName(node) || declared) continue;
+    if (resolveNameCandidates(scope, newName, node.startPosition).length > 0) {
+      return `'${newName}' would be shadowed by an existing binding in ${module.uri}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The import binding `identifier` is the local alias of, or refers to: `y` in
+ * `from m import x as y` / `import a.b as y`, and plain references to `y`.
+ */
+function importAliasAt(identifier: Node, module: ParsedModule): Binding | null {
+  const declared = bindingAt(module.scope, identifier.startPosition);
+  const bindings = declared
+    ? [declared]
+    : isPlainName(identifier)
+      ? resolveNameCandidates(scopeAt(module.scope, identifier.startPosition), identifier.text, identifier.startPosition)
+      : [];
+  return bindings.find(binding => binding.kind === 'import' && isAlias(binding)) ?? null;
+}
+
+function isAlias(binding: Binding): boolean {
+  return binding.name !== (binding.importedName ?? binding.importPath);
+}
+
+/** Whether `node` is the declaration of `alias` or a plain name resolving to it. */
+function isAliasOccurrence(node: Node, module: ParsedModule, alias: Binding): boolean {
+  if (node.startPosition.row === alias.start.row && node.startPosition.column === alias.start.column) return true;
+  if (!isPlainName(node)) return false;
+  const scope = scopeAt(module.scope, node.startPosition);
+  return resolveNameCandidates(scope, node.text, node.startPosition).includes(alias);
+}
+
+/** A name looked up through scopes — not an attribute, keyword or import-path segment. */
+function isPlainName(node: Node): boolean {
+  const parent = node.parent;
+  if (!parent) return true;
+  if (parent.type === 'attribute') return parent.childForFieldName('object')?.id === node.id;
+  if (parent.type === 'keyword_argument') return parent.childForFieldName('value')?.id === node.id;
+  return !ancestorOfType(node, IMPORT_STATEMENTS);
+}
+
+const IMPORT_STATEMENTS = ['import_from_statement', 'import_statement'];
+
+/** Python's hard keywords, which can never be identifiers. */
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+]);
+
+function isPythonIdentifier(name: string): boolean {
+  return /^[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*$/u.test(name) && !PYTHON_KEYWORDS.has(name);
+}
+
+/**
+ * Identifiers in `module` that may refer to a symbol called one of `names`:
+ * the names themselves, plus local aliases imported under another name.
+ */
+function referenceCandidates(module: ParsedModule, names: Set<string>): Node[] {
+  const aliases = new Set(names);
+  const collect = (scope: Scope): void => {
+    for (const bindings of scope.bindings.values()) {
+      for (const binding of bindings) {
+        if (binding.importedName && names.has(binding.importedName)) aliases.add(binding.name);
+      }
+    }
+    scope.children.forEach(collect);
+  };
+  collect(module.scope);
+  return module.tree.rootNode.descendantsOfType('identifier').filter(
+    (node): node is Node => node !== null && aliases.has(node.text)
+  );
+}
+
+/** Find the identifier node at/just before the cursor position. */
+function identifierAt(rootNode: Node, point: Point): Node | null {
+  const candidates: Point[] = [point];
+  if (point.column > 0) {
+    // The cursor may sit just past the last character of the word.
+    candidates.push({ row: point.row, column: point.column - 1 });
+  }
+  for (const candidate of candidates) {
+    const node = rootNode.descendantForPosition(candidate);
+    if (node?.type === 'identifier') return node;
+  }
+  return null;
+}
+
+function ancestorOfType(node: Node, types: string[]): Node | null {
+  let current = node.parent;
+  while (current) {
+    if (types.includes(current.type)) return current;
+    current = current.parent;
+  }
+  return null;
+}
 
 function isInside(node: Node, container: Node): boolean {
   return node.startIndex >= container.startIndex && node.endIndex <= container.endIndex;
 }
 
+function resolutionLocation(resolution: Resolution): DefinitionLocation {
+  return resolution.kind === 'module'
+    ? moduleStart(resolution.doc.uri)
+    : toLocation(resolution.module.uri, resolution.binding.start, resolution.binding.end);
+}
+
+/**
+ * The module path a segment of a dotted module name denotes: `b` in
+ * `a.b.c` → `a.b`; relative prefixes are kept (`pkg` in `..pkg.mod` → `..pkg`).
+ */
+function modulePathUpTo(moduleNode: Node, segment: Node): string {
+  const prefix = moduleNode.type === 'relative_import'
+    ? moduleNode.namedChildren.find(child => child.type === 'import_prefix')?.text ?? ''
+    : '';
+  const dotted = moduleNode.type === 'dotted_name'
+    ? moduleNode
+    : moduleNode.namedChildren.find(child => child.type === 'dotted_name');
+
+  const parts: string[] = [];
+  for (const part of dotted?.namedChildren ?? []) {
+    parts.push(part.text);
+    if (part.id === segment.id) break;
+  }
+  return prefix + parts.join('.');
+}
+
+/**
+ * `location` moved from notebook coordinates into the cell model holding it;
+ * locations in ordinary documents are returned unchanged.
+ */
+function toCellLocation(location: DefinitionLocation, workspace: WorkspaceAccess): DefinitionLocation {
+  const line = location.range.startLineNumber - 1;
+  const cell = workspace
+    .getDocument(location.uri)
+    ?.cells?.find(candidate => line >= candidate.lineOffset && line < candidate.lineOffset + candidate.lineCount);
+  if (!cell) return location;
+  return {
+    uri: cell.uri,
+    range: {
+      ...location.range,
+      startLineNumber: location.range.startLineNumber - cell.lineOffset,
+      endLineNumber: location.range.endLineNumber - cell.lineOffset
+    }
+  };
+}
+
+/** A view of `workspace` whose imports prefer the given module flavor. */
+function withFlavor(workspace: WorkspaceAccess, flavor: ModuleFlavor): WorkspaceAccess {
+  return withResolveImport(workspace, (importPath, fromUri) => workspace.resolveImport(importPath, fromUri, flavor));
+}
+
+/** `workspace` with imports resolved by `resolveImport`; every other member is forwarded to it. */
+function withResolveImport(
+  workspace: WorkspaceAccess,
+  resolveImport: WorkspaceAccess['resolveImport']
+): WorkspaceAccess {
+  return {
+    getDocument: uri => workspace.getDocument(uri),
+    resolveImport,
+    getNotebook: workspace.getNotebook && (cellUri => workspace.getNotebook!(cellUri)),
+    getDocuments: workspace.getDocuments && (languageId => workspace.getDocuments!(languageId)),
+    moduleName: workspace.moduleName && (uri => workspace.moduleName!(uri))
+  };
+}
+
+/**
+ * A view of `workspace` noting in `record` every module its imports land on
+ * (re-exporting packages along the way included) other than `ownUri`, and
+ * `documentSet` when an import misses.
+ */
+function recordImports(
+  workspace: WorkspaceAccess,
+  ownUri: string,
+  record: ResolutionRecord,
+  documentSet: string
+): WorkspaceAccess {
+  return withResolveImport(workspace, async (importPath, fromUri, flavor) => {
+    const target = await workspace.resolveImport(importPath, fromUri, flavor);
+    if (!target) record.documentSet = documentSet;
+    else if (target.uri !== ownUri) record.dependencies.set(target.uri, target.getValue());
+    return target;
+  });
+}
+
+/** Whether nothing `record` was computed from has changed since. */
+function isCurrent(record: ResolutionRecord, workspace: WorkspaceAccess, documentSet: string): boolean {
+  return (
+    (record.documentSet === null || record.documentSet === documentSet) &&
+    [...record.dependencies].every(([uri, source]) => workspace.getDocument(uri)?.getValue() === source)
+  );
+}
+
+/** Identifies a set of tracked documents by their URIs. */
+function documentSetOf(documents: WorkspaceDocument[]): string {
+  return documents
+    .map(document => document.uri)
+    .sort()
+    .join('\n');
+}
+
+function sameLocation(a: DefinitionLocation, b: DefinitionLocation): boolean {
+  return (
+    a.uri === b.uri &&
+    a.range.startLineNumber === b.range.startLineNumber &&
+    a.range.startColumn === b.range.startColumn
+  );
+}
+
+/** The annotation declared on any binding of `binding`'s name in its scope, if one is. */
+function declaredAnnotation(module: ParsedModule, binding: Binding): Node | null {
+  if (binding.kind !== 'variable' && binding.kind !== 'parameter' && binding.kind !== 'attribute') return null;
+  const owner = scopeOfBinding(module.scope, binding);
+  const table = binding.kind === 'attribute' ? owner?.attributes : owner?.bindings;
+  for (const sibling of table?.get(binding.name) ?? [binding]) {
+    const annotation = typeSourceOf(module.tree.rootNode, sibling)?.annotation;
+    if (annotation) return annotation;
+  }
+  return null;
+}
+
+function isCallable(binding: Binding): boolean {
+  return binding.kind === 'function' || binding.kind === 'class';
+}
+
+/** Names of the classes and functions enclosing `scope`, outermost first, `scope`'s own included. */
+function containerNames(scope: Scope): string[] {
+  const names: string[] = [];
+  for (let current: Scope | null = scope; current; current = current.parent) {
+    const name = current.node.childForFieldName('name');
+    if (name && (current.kind === 'class' || current.kind === 'function')) names.unshift(name.text);
+  }
+  return names;
+}
+
+/** The call hierarchy item standing for the top-level code of `uri` (a module or notebook cell). */
+function moduleItem(uri: string, name: string): CallHierarchyItem {
+  const { range } = moduleStart(uri);
+  return { name, kind: 'module', uri, range, selectionRange: range };
+}
+
+function itemKey(item: CallHierarchyItem): string {
+  return `${item.uri}:${item.selectionRange.startLineNumber}:${item.selectionRange.startColumn}`;
+}
+
+/** `symbol` and its children moved by `lines` lines. */
+function shiftSymbol(symbol: DocumentSymbol, lines: number): DocumentSymbol {
+  if (lines === 0) return symbol;
+  const shift = (range: DocumentSymbol['range']): DocumentSymbol['range'] => ({
+    ...range,
+    startLineNumber: range.startLineNumber + lines,
+    endLineNumber: range.endLineNumber + lines
+  });
+  return {
+    ...symbol,
+    range: shift(symbol.range),
+    selectionRange: shift(symbol.selectionRange),
+    children: symbol.children.map(child => shiftSymbol(child, lines))
+  };
+}
+
+function isEmptyRange(location: DefinitionLocation): boolean {
+  const { range } = location;
+  return range.startLineNumber === range.endLineNumber && range.startColumn === range.endColumn;
+}
+
+/** Module name guessed from `uri` alone: `utils` for `…/utils.py`, `pkg` for `…/pkg/__init__.py`. */
+function fileStem(uri: string): string {
+  const segments = uri.split(/[?#]/)[0].split('/');
+  const stem = segments[segments.length - 1].replace(/\.[^.]*$/, '');
+  return stem === '__init__' && segments.length > 1 ? segments[segments.length - 2] : stem;
+}
+
+/** Location of a module file itself (position 1:1). */
+function moduleStart(uri: string): DefinitionLocation {
+  return { uri, range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 } };
+}
+
 function toLocation(uri: string, start: Point, end: Point): DefinitionLocation {
   return {
     uri,
@@ -0,0 +1,53 @@
+import type { Node } from 'web-tree-sitter';
+
+/**
+ * Syntactic side of the call hierarchy: which `call` nodes a definition
+ * executes, the identifier naming each callee, and the definition a call
+ * sits in. Resolving callees is left to the analyzer.
+ */
+
+const DEFINITION_TYPES = ['function_definition', 'class_definition'];
+
+/**
+ * The calls `definition` (a `def` or `class` statement, or the module)
+ * executes itself: calls inside nested functions and classes belong to those.
+ * Decorators and default values run in the enclosing scope and are left out
+ * too. Lambdas have no name to show, so their calls count for the definition
+ * around them.
+ */
+export function callsIn(definition: Node): Node[] {
+  const body = definition.type === 'module' ? definition : definition.childForFieldName('body');
+  if (!body) return [];
+  return body
+    .descendantsOfType('call')
+    .filter((call): call is Node => call !== null && enclosingDefinition(call)?.id === definition.id);
+}
+
+/**
+ * The identifier a call's callee is named by: `f` in `f()`, `run` in
+ * `self.run()` or `pkg.mod.run()`. Null for computed callees (`handlers[0]()`).
+ */
+export function calleeIdentifier(call: Node): Node | null {
+  const callee = call.childForFieldName('function');
+  if (callee?.type === 'identifier') return callee;
+  if (callee?.type === 'attribute') return callee.childForFieldName('attribute');
+  return null;
+}
+
+/**
+ * The innermost `def` or `class` whose body holds `node`, or the module for
+ * top-level code. A node in a definition's decorators, parameters or bases
+ * belongs to the enclosing definition.
+ */
+export function enclosingDefinition(node: Node): Node | null {
+  let child = node;
+  for (let current = node.parent; current; current = current.parent) {
+    if (DEFINITION_TYPES.includes(current.type)) {
+      const body = current.childForFieldName('body');
+      if (body && body.id === child.id) return current;
+    }
+    if (current.type === 'module') return current;
+    child = current;
+  }
+  return null;
+}
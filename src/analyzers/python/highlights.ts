@@ -0,0 +1,87 @@
+import type { Node } from 'web-tree-sitter';
+import type { ParsedModule } from './moduleCache';
+import {
+  Point,
+  Scope,
+  bindingAt,
+  owningClass,
+  resolveNameCandidates,
+  scopeAt,
+  scopeOfBinding,
+  selfMethodScope
+} from './scopes';
+
+/**
+ * Document-local occurrence matching for highlights.
+ *
+ * Everything here stays inside one parsed module — no imports are followed and
+ * nothing is loaded — so it is cheap enough to run on every cursor move. Two
+ * identifiers denote the same symbol when they map to the same key: the scope
+ * binding a plain name, the class owning a `self.x`/class-body member, or
+ * (for other attributes) the object's symbol plus the attribute name.
+ */
+
+/** An occurrence of the symbol under the cursor. */
+export interface Occurrence {
+  node: Node;
+  /** Binding sites (assignments, parameters, imports, definitions) write. */
+  write: boolean;
+}
+
+/** Every occurrence in `module` of the symbol named by the identifier at `identifier`. */
+export function symbolOccurrences(module: ParsedModule, identifier: Node): Occurrence[] {
+  const key = symbolKey(module, identifier);
+  return module.tree.rootNode
+    .descendantsOfType('identifier')
+    .filter((node): node is Node => node !== null && node.text === identifier.text)
+    .filter(node => symbolKey(module, node) === key)
+    .map(node => ({ node, write: bindingAt(module.scope, node.startPosition) !== null }));
+}
+
+function symbolKey(module: ParsedModule, node: Node): string {
+  const parent = node.parent;
+  if (parent?.type === 'attribute' && parent.childForFieldName('attribute')?.id === node.id) {
+    const object = parent.childForFieldName('object');
+    if (object?.type !== 'identifier') return `attribute:${object?.text}.${node.text}`;
+    const classScope = selfClass(module, object);
+    return classScope
+      ? memberKey(classScope.node, node.text)
+      : `attribute:${symbolKey(module, object)}.${node.text}`;
+  }
+  if (parent?.type === 'keyword_argument' && parent.childForFieldName('name')?.id === node.id) {
+    return `node:${node.id}`;
+  }
+
+  const declared = bindingAt(module.scope, node.startPosition);
+  if (!declared && inImportStatement(node)) return `node:${node.id}`; // module path segments
+  const binding =
+    declared ??
+    resolveNameCandidates(scopeAt(module.scope, node.startPosition), node.text, node.startPosition)[0];
+  if (!binding) return `unbound:${node.text}`;
+  const owner = scopeOfBinding(module.scope, binding);
+  if (!owner) return `unbound:${node.text}`;
+  return owner.kind === 'class' ? memberKey(owner.node, node.text) : `scope:${owner.node.id}:${node.text}`;
+}
+
+function memberKey(classNode: Node, name: string): string {
+  return `member:${classNode.id}:${name}`;
+}
+
+/** The class scope whose method's `self`/`cls` parameter `object` is. */
+export function selfClass(module: ParsedModule, object: Node): Scope | null {
+  const position: Point = object.startPosition;
+  const scope = scopeAt(module.scope, position);
+  for (const binding of resolveNameCandidates(scope, object.text, position)) {
+    const method = selfMethodScope(scope, binding);
+    const classScope = method && owningClass(method);
+    if (classScope) return classScope;
+  }
+  return null;
+}
+
+function inImportStatement(node: Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'import_statement' || current.type === 'import_from_statement') return true;
+  }
+  return false;
+}
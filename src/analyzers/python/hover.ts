@@ -0,0 +1,105 @@
+import type { Node } from 'web-tree-sitter';
+import { Binding, BindingKind, stringLiteralValue } from './scopes';
+import { typeSourceOf } from './inference';
+
+/**
+ * Hover text for resolved definitions, read from syntax alone: the header line
+ * of a `def` or `class` (or a name's annotation), its docstring, and the module
+ * it lives in. Docstrings are passed through as Markdown after PEP 257
+ * indentation cleanup.
+ */
+
+/**
+ * Markdown for `binding` in the module parsed as `root`, or for the module
+ * itself when `binding` is null.
+ */
+export function describeDefinition(root: Node, binding: Binding | null, moduleName: string): string {
+  const definition = binding && definitionNode(root, binding);
+  const signature = binding ? signatureOf(root, binding, definition) : `module ${moduleName}`;
+  const docstring = binding ? definition && docstringOf(definition.childForFieldName('body')) : docstringOf(root);
+
+  const sections = ['```python\n' + signature + '\n```'];
+  if (docstring) sections.push(docstring);
+  if (binding) sections.push(`Defined in \`${moduleName}\``);
+  return sections.join('\n\n');
+}
+
+const KIND_LABELS: Partial<Record<BindingKind, string>> = {
+  parameter: 'parameter',
+  variable: 'variable',
+  attribute: 'attribute',
+  import: 'import',
+  typeParameter: 'type parameter'
+};
+
+function signatureOf(root: Node, binding: Binding, definition: Node | null): string {
+  if (definition?.type === 'function_definition') {
+    const isAsync = definition.children.some(child => child?.type === 'async');
+    const returns = definition.childForFieldName('return_type');
+    return (
+      `${isAsync ? 'async ' : ''}def ${binding.name}${typeParameters(definition)}` +
+      `(${listed(definition.childForFieldName('parameters'))})` +
+      (returns ? ` -> ${compact(returns.text)}` : '')
+    );
+  }
+  if (definition?.type === 'class_definition') {
+    const bases = definition.childForFieldName('superclasses');
+    return `class ${binding.name}${typeParameters(definition)}${bases ? `(${listed(bases)})` : ''}`;
+  }
+  if (definition?.type === 'type_alias_statement') return compact(definition.text);
+
+  const annotation = binding.kind === 'import' ? null : typeSourceOf(root, binding)?.annotation;
+  const label = KIND_LABELS[binding.kind] ?? binding.kind;
+  return `(${label}) ${binding.name}${annotation ? `: ${compact(annotation.text)}` : ''}`;
+}
+
+/** The `def`, `class` or `type` statement `binding` names, if it is one. */
+function definitionNode(root: Node, binding: Binding): Node | null {
+  const nameNode = root.namedDescendantForPosition(binding.start, binding.end);
+  let parent = nameNode?.parent ?? null;
+  if (parent?.type === 'type' && binding.kind === 'typeAlias') parent = parent.parent;
+  if (!nameNode || !parent) return null;
+  if (parent.type === 'type_alias_statement') return parent;
+  if (parent.type !== 'function_definition' && parent.type !== 'class_definition') return null;
+  return parent.childForFieldName('name')?.id === nameNode.id ? parent : null;
+}
+
+function typeParameters(definition: Node): string {
+  const parameters = definition.childForFieldName('type_parameters');
+  return parameters ? compact(parameters.text) : '';
+}
+
+/** The items of a parameter or argument list, one line, without comments. */
+function listed(list: Node | null): string {
+  return (list?.namedChildren ?? [])
+    .filter((item): item is Node => item !== null && item.type !== 'comment')
+    .map(item => compact(item.text))
+    .join(', ');
+}
+
+function compact(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** The cleaned docstring opening `block` (a body or the module), if any. */
+function docstringOf(block: Node | null): string | null {
+  const first = block?.namedChildren.find(child => child?.type !== 'comment');
+  const literal = first?.type === 'expression_statement' ? first.namedChildren[0] : null;
+  if (!literal || first?.namedChildCount !== 1) return null;
+  const value = stringLiteralValue(literal);
+  return value ? cleanDocstring(value) || null : null;
+}
+
+/** PEP 257 trimming: strip the common indentation of continuation lines and blank edges. */
+function cleanDocstring(docstring: string): string {
+  const lines = docstring.replace(/\t/g, '        ').split('\n');
+  const indents = lines
+    .slice(1)
+    .filter(line => line.trim())
+    .map(line => line.length - line.trimStart().length);
+  const margin = indents.length > 0 ? Math.min(...indents) : 0;
+  const trimmed = [lines[0].trim(), ...lines.slice(1).map(line => line.slice(margin).trimEnd())];
+  while (trimmed.length > 0 && !trimmed[0]) trimmed.shift();
+  while (trimmed.length > 0 && !trimmed[trimmed.length - 1]) trimmed.pop();
+  return trimmed.join('\n');
+}
@@ -0,0 +1,267 @@
+import type { Node, Parser, Tree } from 'web-tree-sitter';
+import { Binding, Point } from './scopes';
+
+/**
+ * Syntactic building blocks for the analyzer's lightweight type inference.
+ *
+ * Nothing here resolves names — these helpers only find the expressions a
+ * binding's type can be read from, and strip the wrappers (`Optional[X]`,
+ * `X | None`) that don't change which class an attribute lives on. Resolving
+ * those expressions to classes is the analyzer's job.
+ */
+
+/** Where the type of one binding can be read from. */
+export interface TypeSource {
+  /** The annotation expression (`x: Foo`, `def f(x: Foo)`), if any. */
+  annotation: Node | null;
+  /** The assigned or default value expression, if any. */
+  value: Node | null;
+}
+
+/**
+ * Type sources for a variable, parameter, or `self.x` attribute binding.
+ * Returns null for binding forms whose type cannot be read syntactically —
+ * unannotated parameters, tuple unpacking, loop targets, `with`/`except`
+ * aliases, splat parameters — so callers give up rather than guess.
+ */
+export function typeSourceOf(root: Node, binding: Binding): TypeSource | null {
+  const nameNode = root.namedDescendantForPosition(binding.start, binding.end);
+  if (nameNode?.type !== 'identifier') return null;
+
+  let target: Node = nameNode;
+  const parent = nameNode.parent;
+  if (parent?.type === 'attribute' && parent.childForFieldName('attribute')?.id === nameNode.id) {
+    target = parent; // `self.x = …` — the assignment target is the whole attribute.
+  }
+  const owner = target.parent;
+  if (!owner) return null;
+
+  switch (owner.type) {
+    case 'assignment': {
+      if (owner.childForFieldName('left')?.id !== target.id) return null;
+      return {
+        annotation: annotationExpression(owner.childForFieldName('type')),
+        value: assignedValue(owner)
+      };
+    }
+    case 'named_expression':
+      return { annotation: null, value: owner.childForFieldName('value') };
+    case 'typed_parameter':
+      if (owner.namedChildren[0]?.id !== target.id) return null;
+      return { annotation: annotationExpression(owner.childForFieldName('type')), value: null };
+    case 'typed_default_parameter':
+    case 'default_parameter':
+      return {
+        annotation: annotationExpression(owner.childForFieldName('type')),
+        value: owner.childForFieldName('value')
+      };
+    default:
+      return null;
+  }
+}
+
+/** The right-hand side of an assignment, looking through chains (`a = b = Foo()`). */
+function assignedValue(assignment: Node): Node | null {
+  let value = assignment.childForFieldName('right');
+  while (value?.type === 'assignment') {
+    value = value.childForFieldName('right');
+  }
+  return value;
+}
+
+/** The expression inside a `type` node. */
+function annotationExpression(typeNode: Node | null): Node | null {
+  return typeNode?.type === 'type' ? typeNode.namedChildren[0] : typeNode;
+}
+
+/**
+ * The single class expression an annotation denotes, with `Optional[X]`,
+ * `Union[X, None]` and `X | None` unwrapped and generic arguments dropped
+ * (`Box[int]` → `Box`). Null for real unions and anything unreadable. A string
+ * (forward reference) is returned as is, for the caller to parse with
+ * {@link parseStringAnnotation}.
+ */
+export function annotatedClass(annotation: Node): Node | null {
+  switch (annotation.type) {
+    case 'type': {
+      const inner = annotation.namedChildren[0];
+      return inner ? annotatedClass(inner) : null;
+    }
+    case 'identifier':
+    case 'attribute':
+    case 'string':
+      return annotation;
+    case 'binary_operator': {
+      if (annotation.childForFieldName('operator')?.type !== '|') return null;
+      return singleNonNone(unionOperands(annotation));
+    }
+    case 'generic_type': {
+      const [base, parameters] = annotation.namedChildren;
+      if (!base) return null;
+      if (isOptionalOrUnion(base) && parameters) {
+        return singleNonNone(parameters.namedChildren);
+      }
+      return annotatedClass(base);
+    }
+    case 'subscript': {
+      const value = annotation.childForFieldName('value');
+      if (!value) return null;
+      if (isOptionalOrUnion(value)) {
+        return singleNonNone(annotation.childrenForFieldName('subscript'));
+      }
+      return annotatedClass(value);
+    }
+    default:
+      return null;
+  }
+}
+
+/** Generic containers whose single type argument "Go to Type Definition" lands on. */
+const ELEMENT_CONTAINERS = new Set([
+  'list',
+  'List',
+  'set',
+  'Set',
+  'frozenset',
+  'FrozenSet',
+  'tuple',
+  'Tuple',
+  'deque',
+  'Deque',
+  'Sequence',
+  'MutableSequence',
+  'AbstractSet',
+  'MutableSet',
+  'Collection',
+  'Iterable',
+  'Iterator',
+  'AsyncIterable',
+  'AsyncIterator',
+  'Awaitable',
+  'type',
+  'Type'
+]);
+
+/**
+ * The annotation a value's *type definition* is read from: like
+ * {@link annotatedClass} it unwraps `Optional[X]` and `X | None`, and it also
+ * looks inside single-element containers (`list[Order]`, `Sequence[Order]`,
+ * `tuple[Order, ...]`) — attribute lookups must stop at the container, but a
+ * jump to the type should land on the element. Returns `annotation` itself
+ * when there is nothing to unwrap.
+ */
+export function elementAnnotation(annotation: Node): Node {
+  let current = annotation;
+  for (let inner = unwrapElement(current); inner; inner = unwrapElement(current)) {
+    current = inner;
+  }
+  return current;
+}
+
+function unwrapElement(node: Node): Node | null {
+  switch (node.type) {
+    case 'type':
+      return node.namedChildren[0] ?? null;
+    case 'binary_operator': {
+      if (node.childForFieldName('operator')?.type !== '|') return null;
+      const members = unionOperands(node).filter(member => !isNone(member));
+      return members.length === 1 ? members[0] : null;
+    }
+    case 'union_type': {
+      // `list[X] | None`: a union whose left operand is generic.
+      const members = node.namedChildren.filter(member => member.type !== 'comment' && !isNone(member));
+      return members.length === 1 ? members[0] : null;
+    }
+    case 'generic_type':
+    case 'subscript': {
+      const base = node.type === 'generic_type' ? node.namedChildren[0] : node.childForFieldName('value');
+      const args =
+        node.type === 'generic_type'
+          ? node.namedChildren[1]?.namedChildren ?? []
+          : node.childrenForFieldName('subscript');
+      if (!base) return null;
+      if (isOptionalOrUnion(base)) {
+        const members = args.filter(arg => !isNone(arg));
+        return members.length === 1 ? members[0] : null;
+      }
+      const name = base.type === 'attribute' ? base.childForFieldName('attribute')?.text : base.text;
+      if (!name || !ELEMENT_CONTAINERS.has(name)) return null;
+      const homogeneous = args.length === 1 || (args.length === 2 && isEllipsis(args[1]));
+      return homogeneous ? args[0] : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function isEllipsis(node: Node): boolean {
+  return node.type === 'ellipsis' || (node.type === 'type' && node.namedChildren[0]?.type === 'ellipsis');
+}
+
+function isOptionalOrUnion(node: Node): boolean {
+  const name = node.type === 'attribute' ? node.childForFieldName('attribute')?.text : node.text;
+  return name === 'Optional' || name === 'Union';
+}
+
+function unionOperands(node: Node): Node[] {
+  if (node.type !== 'binary_operator' || node.childForFieldName('operator')?.type !== '|') {
+    return [node];
+  }
+  const left = node.childForFieldName('left');
+  const right = node.childForFieldName('right');
+  return [...(left ? unionOperands(left) : []), ...(right ? unionOperands(right) : [])];
+}
+
+function singleNonNone(members: Node[]): Node | null {
+  const classes = members.filter(member => !isNone(member));
+  return classes.length === 1 ? annotatedClass(classes[0]) : null;
+}
+
+/** `None` as an expression or as a `type` wrapping it. */
+export function isNone(node: Node): boolean {
+  if (node.type === 'type') return node.namedChildren[0]?.type === 'none';
+  return node.type === 'none';
+}
+
+/**
+ * The string literal at `point` if it is (part of) an annotation — a forward
+ * reference such as `x: "Order"` or `-> Optional["Item"]`. F-strings and
+ * strings outside annotations yield null.
+ */
+export function stringAnnotationAt(root: Node, point: Point): Node | null {
+  let node: Node | null = root.descendantForPosition(point);
+  while (node && node.type !== 'string') node = node.parent;
+  if (!node || node.namedChildren.some(child => child.type === 'interpolation')) return null;
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'type') return node;
+    if (current.type.endsWith('statement') || current.type === 'block') return null;
+  }
+  return null;
+}
+
+/**
+ * Parse the expression a string annotation spells out. The source is padded
+ * so every node of the result sits at the position of the same characters
+ * inside the string: names can be resolved with the enclosing document's
+ * scopes as if they were written unquoted. The caller deletes the tree.
+ */
+export function parseStringAnnotation(
+  stringNode: Node,
+  parser: Parser
+): { tree: Tree; expression: Node } | null {
+  const content = stringNode.namedChildren.find(child => child.type === 'string_content');
+  if (!content || content.startPosition.column === 0) return null;
+  const { row, column } = content.startPosition;
+  // `(` keeps the leading indentation legal and lets triple-quoted strings span lines.
+  const source = `${'\n'.repeat(row)}${' '.repeat(column - 1)}(${content.text})`;
+  const tree = parser.parse(source);
+  if (!tree) return null;
+  const statement = tree.rootNode.namedChildren[0];
+  const parenthesized = statement?.type === 'expression_statement' ? statement.namedChildren[0] : null;
+  const expression = parenthesized?.type === 'parenthesized_expression' ? parenthesized.namedChildren[0] : null;
+  if (!expression || tree.rootNode.hasError) {
+    tree.delete();
+    return null;
+  }
+  return { tree, expression };
+}
@@ -0,0 +1,79 @@
+import type { Tree } from 'web-tree-sitter';
+import { Scope, buildScopeTree } from './scopes';
+
+/** One version of a Python document, parsed, with its scope tree. */
+export interface ParsedModule {
+  uri: string;
+  /** The exact source the tree was parsed from. */
+  source: string;
+  tree: Tree;
+  scope: Scope;
+}
+
+/**
+ * Cache of parsed Python modules keyed by URI and validated by source text.
+ *
+ * Scope trees hold tree-sitter nodes, so a tree must stay alive for as long as
+ * any in-flight request may read from it — including across the `await`s of
+ * cross-file resolution. Requests therefore run inside {@link use}; trees that
+ * are replaced or evicted meanwhile are only deleted once no request is active.
+ */
+export class ParsedModuleCache {
+  private readonly entries = new Map<string, ParsedModule>();
+  private readonly retired: Tree[] = [];
+  private active = 0;
+
+  constructor(private readonly maxEntries = 64) {}
+
+  /** Cached module for `uri` if it was parsed from exactly `source`, else a fresh parse. */
+  get(uri: string, source: string, parse: (source: string) => Tree | null): ParsedModule | null {
+    const cached = this.entries.get(uri);
+    if (cached && cached.source === source) {
+      // Re-insert to keep Map order least-recently-used first.
+      this.entries.delete(uri);
+      this.entries.set(uri, cached);
+      return cached;
+    }
+
+    const tree = parse(source);
+    if (!tree) return null;
+    if (cached) this.retire(uri);
+
+    const module: ParsedModule = { uri, source, tree, scope: buildScopeTree(tree) };
+    this.entries.set(uri, module);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.retire(oldest);
+    }
+    return module;
+  }
+
+  /** Run `task` with every tree it obtains from this cache kept alive until it settles. */
+  async use<T>(task: () => Promise<T>): Promise<T> {
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.collect();
+    }
+  }
+
+  /** Drop every entry. Trees still in use by an active request are deleted when it settles. */
+  clear(): void {
+    for (const uri of [...this.entries.keys()]) this.retire(uri);
+  }
+
+  private retire(uri: string): void {
+    const entry = this.entries.get(uri);
+    if (!entry) return;
+    this.entries.delete(uri);
+    this.retired.push(entry.tree);
+    this.collect();
+  }
+
+  private collect(): void {
+    if (this.active > 0) return;
+    for (const tree of this.retired.splice(0)) tree.delete();
+  }
+}
@@ -0,0 +1,117 @@
+import type { Node } from 'web-tree-sitter';
+import type { DocumentSymbol, DocumentSymbolKind } from '../../types';
+import {
+  Binding,
+  Point,
+  Scope,
+  decoratorNames,
+  definitionScope,
+  findClassMember,
+  isEnumClass
+} from './scopes';
+
+/**
+ * The document outline, read off the scope tree: classes with their methods,
+ * class attributes and `self.x` attributes; functions with the functions and
+ * classes nested in them; and module-level variables. Imports are left out.
+ * Each symbol spans its whole definition (decorators included) and selects
+ * its name.
+ */
+export function documentSymbols(root: Scope): DocumentSymbol[] {
+  return scopeSymbols(root, root);
+}
+
+function scopeSymbols(root: Scope, scope: Scope): DocumentSymbol[] {
+  const symbols: DocumentSymbol[] = [];
+  for (const bindings of scope.bindings.values()) {
+    let variableSeen = false;
+    for (const binding of bindings) {
+      if (binding.kind === 'function' || binding.kind === 'class') {
+        const defined = definitionScope(scope, binding);
+        if (defined) symbols.push(definitionSymbol(root, scope, binding, defined));
+      } else if (scope.kind !== 'function' && isVariable(binding) && !variableSeen) {
+        // A reassigned name is one symbol, at its first binding.
+        variableSeen = true;
+        symbols.push(leafSymbol(root, binding, variableKind(scope, binding)));
+      }
+    }
+  }
+  if (scope.kind === 'class') {
+    for (const name of scope.attributes.keys()) {
+      const member = findClassMember(scope, name);
+      if (member?.kind === 'attribute') symbols.push(leafSymbol(root, member, 'field'));
+    }
+  }
+  return symbols.sort((a, b) => comparePositions(a.selectionRange, b.selectionRange));
+}
+
+function definitionSymbol(root: Scope, parent: Scope, binding: Binding, defined: Scope): DocumentSymbol {
+  const decorated = defined.node.parent?.type === 'decorated_definition' ? defined.node.parent : defined.node;
+  return {
+    name: binding.name,
+    kind: definitionKind(parent, binding, defined),
+    range: nodeRange(decorated),
+    selectionRange: pointRange(binding.start, binding.end),
+    children: scopeSymbols(root, defined)
+  };
+}
+
+function leafSymbol(root: Scope, binding: Binding, kind: DocumentSymbolKind): DocumentSymbol {
+  const nameNode = root.node.namedDescendantForPosition(binding.start, binding.end);
+  const selectionRange = pointRange(binding.start, binding.end);
+  return {
+    name: binding.name,
+    kind,
+    range: nameNode ? nodeRange(statementOf(nameNode)) : selectionRange,
+    selectionRange,
+    children: []
+  };
+}
+
+export function definitionKind(parent: Scope, binding: Binding, defined: Scope): DocumentSymbolKind {
+  if (binding.kind === 'class') return isEnumClass(defined) ? 'enum' : 'class';
+  if (parent.kind !== 'class') return 'function';
+  if (binding.name === '__init__') return 'constructor';
+  const decorators = decoratorNames(defined);
+  if (decorators.includes('property') || decorators.some(name => /\.(setter|getter|deleter)$/.test(name))) {
+    return 'property';
+  }
+  return 'method';
+}
+
+function variableKind(scope: Scope, binding: Binding): DocumentSymbolKind {
+  if (scope.kind === 'class') return isEnumClass(scope) ? 'enumMember' : 'field';
+  return /^[A-Z][A-Z0-9_]*$/.test(binding.name) ? 'constant' : 'variable';
+}
+
+function isVariable(binding: Binding): boolean {
+  return binding.kind === 'variable' || binding.kind === 'typeAlias';
+}
+
+/** The statement a binding's name belongs to: `x` → `x: int = 1`, a loop target → its loop. */
+function statementOf(node: Node): Node {
+  let current = node;
+  while (current.parent && current.parent.type !== 'block' && current.parent.type !== 'module') {
+    current = current.parent;
+  }
+  return current;
+}
+
+function nodeRange(node: Node): DocumentSymbol['range'] {
+  return pointRange(node.startPosition, node.endPosition);
+}
+
+function pointRange(start: Point, end: Point): DocumentSymbol['range'] {
+  return {
+    startLineNumber: start.row + 1,
+    startColumn: start.column + 1,
+    endLineNumber: end.row + 1,
+    endColumn: end.column + 1
+  };
+}
+
+function comparePositions(a: DocumentSymbol['range'], b: DocumentSymbol['range']): number {
+  return a.startLineNumber !== b.startLineNumber
+    ? a.startLineNumber - b.startLineNumber
+    : a.startColumn - b.startColumn;
+}
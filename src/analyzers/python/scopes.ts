@@ -6,7 +6,15 @@ export interface Point {
   column: number;
 }
 
-export type BindingKind = 'function' | 'class' | 'parameter' | 'variable' | 'import';
+export type BindingKind =
+  | 'function'
+  | 'class'
+  | 'parameter'
+  | 'variable'
+  | 'import'
+  | 'attribute'
+  | 'typeParameter'
+  | 'typeAlias';
 
 export interface Binding {
   name: string;
@@ -14,13 +22,30 @@ export interface Binding {
   /** Position of the *name* node (0-based, tree-sitter convention). */
   start: Point;
   end: Point;
-  /** Import bindings: dotted module path as written (may have leading dots). */
+  /**
+   * Import bindings: dotted path of the module the import is resolved against,
+   * as written (may have leading dots). For `import a.b.c` that is `a`, the
+   * package the name is bound to.
+   */
   importPath?: string;
   /** From-import bindings: the original name in the target module. */
   importedName?: string;
 }
 
-export type ScopeKind = 'module' | 'function' | 'class' | 'lambda' | 'comprehension';
+/** A `from module import *` statement. */
+export interface WildcardImport {
+  /** Dotted module path as written (may have leading dots). */
+  importPath: string;
+  /** Position of the statement. */
+  start: Point;
+}
+
+/**
+ * `annotation` is the PEP 695 scope holding a generic function's, class's or
+ * type alias's type parameters; it sits between the definition and its
+ * enclosing scope.
+ */
+export type ScopeKind = 'module' | 'function' | 'class' | 'lambda' | 'comprehension' | 'annotation';
 
 export interface Scope {
   kind: ScopeKind;
@@ -33,6 +58,16 @@ export interface Scope {
   globals: Set<string>;
   /** Names declared `nonlocal` in this scope. */
   nonlocals: Set<string>;
+  /**
+   * Star imports executed in this scope, in document order. Their names are
+   * only known once the target module is loaded, so they are resolved lazily.
+   */
+  wildcardImports: WildcardImport[];
+  /**
+   * Class scopes only: attributes assigned through a method's first
+   * parameter (`self.x = …`, `cls.x = …`), in document order.
+   */
+  attributes: Map<string, Binding[]>;
 }
 
 /** Build the full scope tree with all name bindings for a parsed module. */
@@ -52,18 +87,20 @@ function makeScope(kind: ScopeKind, node: Node, parent: Scope | null): Scope {
     children: [],
     bindings: new Map(),
     globals: new Set(),
-    nonlocals: new Set()
+    nonlocals: new Set(),
+    wildcardImports: [],
+    attributes: new Map()
   };
   parent?.children.push(scope);
   return scope;
 }
 
-function addBinding(scope: Scope, binding: Binding): void {
-  const list = scope.bindings.get(binding.name);
+function addBinding(scope: Scope, binding: Binding, target = scope.bindings): void {
+  const list = target.get(binding.name);
   if (list) {
     list.push(binding);
   } else {
-    scope.bindings.set(binding.name, [binding]);
+    target.set(binding.name, [binding]);
   }
 }
 
@@ -82,7 +119,7 @@ function visit(node: Node, scope: Scope): void {
     case 'function_definition': {
       const nameNode = node.childForFieldName('name');
       if (nameNode) addBinding(scope, bindingFromNameNode(nameNode, 'function'));
-      const fnScope = makeScope('function', node, scope);
+      const fnScope = makeScope('function', node, typeParameterScope(node, scope));
       const params = node.childForFieldName('parameters');
       if (params) bindParameters(params, fnScope);
       // Default values and annotations evaluate in the *enclosing* scope,
@@ -96,7 +133,7 @@ function visit(node: Node, scope: Scope): void {
     case 'class_definition': {
       const nameNode = node.childForFieldName('name');
       if (nameNode) addBinding(scope, bindingFromNameNode(nameNode, 'class'));
-      const classScope = makeScope('class', node, scope);
+      const classScope = makeScope('class', node, typeParameterScope(node, scope));
       const body = node.childForFieldName('body');
       if (body) visitChildren(body, classScope);
       return;
@@ -181,9 +218,11 @@ function visit(node: Node, scope: Scope): void {
             );
           }
         } else if (child.type === 'dotted_name') {
+          // Without an alias the bound name is the top-level package; the
+          // rest of the path is reached through attribute access (`a.b.c.f`).
           const first = child.namedChildren[0];
           if (first?.type === 'identifier') {
-            addBinding(scope, bindingFromNameNode(first, 'import', { importPath: child.text }));
+            addBinding(scope, bindingFromNameNode(first, 'import', { importPath: first.text }));
           }
         }
       }
@@ -194,7 +233,7 @@ function visit(node: Node, scope: Scope): void {
       const moduleNode = node.childForFieldName('module_name');
       const importPath = moduleNode?.text ?? '';
       for (const child of node.namedChildren) {
-        if (!child || child === moduleNode) continue;
+        if (!child || child.id === moduleNode?.id) continue;
         if (child.type === 'aliased_import') {
           const aliasNode = child.childForFieldName('alias');
           const nameNode = child.childForFieldName('name');
@@ -218,8 +257,38 @@ function visit(node: Node, scope: Scope): void {
               })
             );
           }
+        } else if (child.type === 'wildcard_import') {
+          scope.wildcardImports.push({ importPath, start: node.startPosition });
+        }
+      }
+      return;
+    }
+
+    case 'type_alias_statement': {
+      // `type Alias[K] = …` — the value is lazily evaluated in an annotation
+      // scope holding the alias's own type parameters.
+      const left = node.childForFieldName('left')?.namedChildren[0];
+      const nameNode = left?.type === 'generic_type' ? left.namedChildren[0] : left;
+      if (nameNode?.type === 'identifier') addBinding(scope, bindingFromNameNode(nameNode, 'typeAlias'));
+      const typeParams = left?.type === 'generic_type' ? left.namedChildren[1] : null;
+      let valueScope = scope;
+      if (typeParams?.type === 'type_parameter') {
+        valueScope = makeScope('annotation', node, scope);
+        bindTypeParameters(typeParams, valueScope);
+      }
+      const right = node.childForFieldName('right');
+      if (right) visit(right, valueScope);
+      return;
+    }
+
+    case 'case_clause': {
+      // `case <pattern> [if guard]:` — capture patterns bind in the current scope.
+      for (const child of node.namedChildren) {
+        if (child.type === 'case_pattern') {
+          bindCasePattern(child, scope);
+        } else {
+          visit(child, scope);
         }
-        // wildcard_import is intentionally skipped — nothing nameable to bind.
       }
       return;
     }
@@ -267,7 +336,99 @@ function bindTargetPattern(node: Node, scope: Scope, kind: BindingKind): void {
       if (inner) bindTargetPattern(inner, scope, kind);
       return;
     }
-    // attribute (obj.x = …) and subscript (obj[i] = …) targets don't bind names.
+    case 'attribute': {
+      // `self.x = …` inside a method declares an attribute on the class.
+      const objectNode = node.childForFieldName('object');
+      const attrNode = node.childForFieldName('attribute');
+      if (objectNode?.type !== 'identifier' || !attrNode) return;
+      const classScope = owningClass(scope);
+      if (!classScope || selfParameter(scope) !== objectNode.text) return;
+      addBinding(classScope, bindingFromNameNode(attrNode, 'attribute'), classScope.attributes);
+      return;
+    }
+    // Other attribute (obj.x = …) and subscript (obj[i] = …) targets don't bind names.
+    default:
+      return;
+  }
+}
+
+/**
+ * The scope a function or class definition's own scope hangs off: a fresh
+ * annotation scope holding its PEP 695 type parameters (`def f[T]`,
+ * `class Box[T]`), or the enclosing scope for non-generic definitions.
+ */
+function typeParameterScope(definition: Node, enclosing: Scope): Scope {
+  const typeParams = definition.childForFieldName('type_parameters');
+  if (!typeParams) return enclosing;
+  const annotationScope = makeScope('annotation', definition, enclosing);
+  bindTypeParameters(typeParams, annotationScope);
+  return annotationScope;
+}
+
+/** Bind `T`, `T: Bound`, `*Ts` and `**P` from a `[...]` type parameter list. */
+function bindTypeParameters(typeParams: Node, scope: Scope): void {
+  for (const param of typeParams.namedChildren) {
+    let inner = param.type === 'type' ? param.namedChildren[0] : param;
+    if (inner?.type === 'constrained_type') {
+      // `T: Bound` — the first type is the parameter, the rest is its bound.
+      inner = inner.namedChildren[0]?.namedChildren[0] ?? null;
+    } else if (inner?.type === 'splat_type') {
+      inner = inner.namedChildren[0];
+    }
+    if (inner?.type === 'identifier') addBinding(scope, bindingFromNameNode(inner, 'typeParameter'));
+  }
+}
+
+/**
+ * Bind the capture names of a `match` case pattern. Bare names capture
+ * (except the `_` wildcard); dotted names are value patterns, class names in
+ * class patterns and keys in keyword/mapping patterns are references.
+ */
+function bindCasePattern(node: Node, scope: Scope): void {
+  switch (node.type) {
+    case 'dotted_name': {
+      const [only, ...rest] = node.namedChildren;
+      if (only?.type === 'identifier' && rest.length === 0 && only.text !== '_') {
+        addBinding(scope, bindingFromNameNode(only, 'variable'));
+      }
+      return;
+    }
+    case 'splat_pattern': {
+      const inner = node.namedChildren[0];
+      if (inner?.type === 'identifier' && inner.text !== '_') {
+        addBinding(scope, bindingFromNameNode(inner, 'variable'));
+      }
+      return;
+    }
+    case 'as_pattern': {
+      // `<pattern> as name`
+      for (const child of node.namedChildren) {
+        if (child.type === 'identifier') {
+          addBinding(scope, bindingFromNameNode(child, 'variable'));
+        } else {
+          bindCasePattern(child, scope);
+        }
+      }
+      return;
+    }
+    case 'class_pattern':
+    case 'keyword_pattern':
+      // Skip the class name / keyword; the remaining children are sub-patterns.
+      for (const child of node.namedChildren.slice(1)) bindCasePattern(child, scope);
+      return;
+    case 'dict_pattern':
+      for (const child of node.childrenForFieldName('value')) bindCasePattern(child, scope);
+      for (const child of node.namedChildren) {
+        if (child.type === 'splat_pattern') bindCasePattern(child, scope);
+      }
+      return;
+    case 'case_pattern':
+    case 'list_pattern':
+    case 'tuple_pattern':
+    case 'union_pattern':
+      for (const child of node.namedChildren) bindCasePattern(child, scope);
+      return;
+    // Literal patterns bind nothing.
     default:
       return;
   }
@@ -309,6 +470,200 @@ function bindParameters(params: Node, scope: Scope): void {
   }
 }
 
+/**
+ * The class a function is defined directly in — looking through the
+ * annotation scope of a generic method — or null for non-methods.
+ */
+export function owningClass(fnScope: Scope): Scope | null {
+  if (fnScope.kind !== 'function') return null;
+  let parent = fnScope.parent;
+  if (parent?.kind === 'annotation') parent = parent.parent;
+  return parent?.kind === 'class' ? parent : null;
+}
+
+/**
+ * Name of a method's `self`/`cls` parameter: the first parameter of a function
+ * defined directly in a class body, unless it is a `@staticmethod`.
+ */
+export function selfParameter(fnScope: Scope): string | null {
+  if (!owningClass(fnScope)) return null;
+  if (decoratorNames(fnScope).includes('staticmethod')) return null;
+  const first = fnScope.node.childForFieldName('parameters')?.namedChildren[0];
+  if (!first || first.type === 'list_splat_pattern' || first.type === 'dictionary_splat_pattern') {
+    return null;
+  }
+  const nameNode = first.type === 'identifier' ? first : first.namedChildren[0];
+  return nameNode?.type === 'identifier' ? nameNode.text : null;
+}
+
+/**
+ * Decorators (as written, without `@`) on a function or class scope's
+ * definition. Decorator calls are reduced to their callee:
+ * `@dataclass(frozen=True)` → `dataclass`.
+ */
+export function decoratorNames(scope: Scope): string[] {
+  const decorated = scope.node.parent;
+  if (decorated?.type !== 'decorated_definition') return [];
+  return decorated.namedChildren
+    .filter(child => child?.type === 'decorator')
+    .map(decorator => {
+      const expression = decorator.namedChildren[0];
+      const callee = expression?.type === 'call' ? expression.childForFieldName('function') : expression;
+      return callee?.text ?? '';
+    });
+}
+
+/** Class decorators that generate `__init__` from the class-body fields. */
+const FIELD_DECORATORS = new Set([
+  'dataclass',
+  'dataclasses.dataclass',
+  'attr.s',
+  'attr.attrs',
+  'attr.define',
+  'attr.frozen',
+  'attr.mutable',
+  'attrs.define',
+  'attrs.frozen',
+  'attrs.mutable',
+  'define',
+  'frozen',
+  'mutable'
+]);
+
+/** Base classes whose subclasses take their class-body fields as constructor keywords. */
+const FIELD_BASES = new Set(['NamedTuple', 'TypedDict', 'BaseModel']);
+
+const ENUM_BASES = new Set(['Enum', 'IntEnum', 'StrEnum', 'Flag', 'IntFlag', 'ReprEnum']);
+
+/**
+ * Whether a class gets a generated `__init__` taking its fields as keywords:
+ * dataclasses, attrs classes, and direct NamedTuple/TypedDict/pydantic
+ * subclasses. Judged by name, so it works without the library's source.
+ */
+export function synthesizesInit(classScope: Scope): boolean {
+  return (
+    decoratorNames(classScope).some(name => FIELD_DECORATORS.has(name)) ||
+    baseClassNodes(classScope).some(base => FIELD_BASES.has(lastSegment(base)))
+  );
+}
+
+/** Whether a class derives directly from one of the `enum` module's base classes. */
+export function isEnumClass(classScope: Scope): boolean {
+  return baseClassNodes(classScope).some(base => ENUM_BASES.has(lastSegment(base)));
+}
+
+/** Whether a class derives directly from `typing.Protocol` (generic or not). */
+export function isProtocolClass(classScope: Scope): boolean {
+  return baseClassNodes(classScope).some(base => lastSegment(base) === 'Protocol');
+}
+
+/** `Name` of `Name` or `pkg.mod.Name`. */
+function lastSegment(node: Node): string {
+  return node.type === 'attribute' ? node.childForFieldName('attribute')?.text ?? '' : node.text;
+}
+
+/**
+ * The method scope whose `self`/`cls` parameter `binding` (resolved from
+ * inside `scope`) is; null when it is any other binding. The class is
+ * {@link owningClass} of the method scope.
+ */
+export function selfMethodScope(scope: Scope, binding: Binding): Scope | null {
+  if (binding.kind !== 'parameter') return null;
+  for (let current: Scope | null = scope; current; current = current.parent) {
+    if (current.bindings.get(binding.name)?.includes(binding)) {
+      return selfParameter(current) === binding.name ? current : null;
+    }
+  }
+  return null;
+}
+
+/** The scope whose bindings (or, for `self.x` attributes, attributes) hold `binding`. */
+export function scopeOfBinding(root: Scope, binding: Binding): Scope | null {
+  const table = binding.kind === 'attribute' ? root.attributes : root.bindings;
+  if (table.get(binding.name)?.includes(binding)) return root;
+  for (const child of root.children) {
+    const found = scopeOfBinding(child, binding);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** The binding (or `self.x` attribute) whose name node starts at `point`, in any scope. */
+export function bindingAt(root: Scope, point: Point): Binding | null {
+  for (const table of [root.bindings, root.attributes]) {
+    for (const bindings of table.values()) {
+      const found = bindings.find(binding => comparePoints(binding.start, point) === 0);
+      if (found) return found;
+    }
+  }
+  for (const child of root.children) {
+    const found = bindingAt(child, point);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Function scopes defined directly in a class body, generic ones included. */
+function methodScopes(classScope: Scope): Scope[] {
+  return classScope.children
+    .flatMap(child => (child.kind === 'annotation' ? child.children : [child]))
+    .filter(child => child.kind === 'function');
+}
+
+/**
+ * Look up a member declared on a class itself: class-body bindings (methods,
+ * class attributes) first, then `self.x = …` assignments, preferring those
+ * in `__init__`.
+ */
+export function findClassMember(classScope: Scope, name: string): Binding | null {
+  const declared = classScope.bindings.get(name);
+  if (declared && declared.length > 0) return declared[0];
+
+  const assigned = classScope.attributes.get(name);
+  if (!assigned || assigned.length === 0) return null;
+  const init = methodScopes(classScope).find(
+    method => method.node.childForFieldName('name')?.text === '__init__'
+  );
+  return (init && assigned.find(binding => nodeContains(init.node, binding.start))) ?? assigned[0];
+}
+
+/**
+ * Base class expressions of a class scope, in declaration order: positional
+ * entries of the `superclasses` list, with subscripts (`Generic[T]`) unwrapped.
+ * Keyword arguments (`metaclass=…`) and splats are not bases.
+ */
+export function baseClassNodes(classScope: Scope): Node[] {
+  const superclasses = classScope.node.childForFieldName('superclasses');
+  const bases: Node[] = [];
+  for (const arg of superclasses?.namedChildren ?? []) {
+    if (!arg) continue;
+    if (arg.type === 'subscript') {
+      const value = arg.childForFieldName('value');
+      if (value) bases.push(value);
+    } else if (arg.type === 'identifier' || arg.type === 'attribute') {
+      bases.push(arg);
+    }
+  }
+  return bases;
+}
+
+/** The scope opened by the class or function definition that `binding` names. */
+export function definitionScope(root: Scope, binding: Binding): Scope | null {
+  for (const child of root.children) {
+    const nameNode = child.node.childForFieldName('name');
+    if (
+      (child.kind === 'class' || child.kind === 'function') &&
+      nameNode &&
+      comparePoints(nameNode.startPosition, binding.start) === 0
+    ) {
+      return child;
+    }
+    const nested = definitionScope(child, binding);
+    if (nested) return nested;
+  }
+  return null;
+}
+
 /** Innermost scope whose node contains the given position. */
 export function scopeAt(root: Scope, position: Point): Scope {
   let current = root;
@@ -344,55 +699,130 @@ function comparePoints(a: Point, b: Point): number {
  * - `global` jumps straight to module scope; `nonlocal` skips to enclosing
  *   function scopes only;
  * - class scopes are invisible to code nested inside them (methods don't see
- *   class-level names), except when the reference sits directly in the class body;
+ *   class-level names), except when the reference sits directly in the class
+ *   body, in a nested definition's header (annotations, defaults, bases) or in
+ *   a PEP 695 annotation scope — those are evaluated in the class body;
  * - within a scope, prefer the last binding before the reference, falling back
  *   to the first binding (forward references to module-level functions).
  */
 export function resolveName(startScope: Scope, name: string, reference: Point): Binding | null {
+  const candidates = resolveNameCandidates(startScope, name, reference);
+  return candidates[candidates.length - 1] ?? null;
+}
+
+/**
+ * Every binding a reference may denote, in document order: the one
+ * {@link resolveName} picks, plus earlier bindings of the name in branches
+ * mutually exclusive with it — `if`/`elif`/`else` branches, `try` bodies and
+ * their `except` handlers, `match` cases. Empty when the name is unbound.
+ */
+export function resolveNameCandidates(startScope: Scope, name: string, reference: Point): Binding[] {
   let scope: Scope | null = startScope;
-  let isStartScope = true;
+  // Whether a class scope reached next is still visible from the reference.
+  let seesClass = true;
 
   while (scope) {
     if (scope.globals.has(name)) {
       let moduleScope: Scope = scope;
       while (moduleScope.parent) moduleScope = moduleScope.parent;
-      return pickBinding(moduleScope.bindings.get(name), reference);
+      return pickBindings(moduleScope, name, reference);
     }
 
     if (scope.nonlocals.has(name)) {
       let enclosing = scope.parent;
       while (enclosing) {
         if (enclosing.kind === 'function' || enclosing.kind === 'lambda') {
-          const found = pickBinding(enclosing.bindings.get(name), reference);
-          if (found) return found;
+          const found = pickBindings(enclosing, name, reference);
+          if (found.length > 0) return found;
         }
         if (enclosing.kind === 'module') break;
         enclosing = enclosing.parent;
       }
-      return null;
+      return [];
     }
 
-    const skipClassScope = scope.kind === 'class' && !isStartScope;
+    const skipClassScope = scope.kind === 'class' && !seesClass;
     if (!skipClassScope) {
-      const found = pickBinding(scope.bindings.get(name), reference);
-      if (found) return found;
+      const found = pickBindings(scope, name, reference);
+      if (found.length > 0) return found;
     }
 
+    seesClass =
+      seesClass &&
+      (scope.kind === 'annotation' || (scope === startScope && inDefinitionHeader(scope, reference)));
     scope = scope.parent;
-    isStartScope = false;
   }
-  return null;
+  return [];
 }
 
-function pickBinding(bindings: Binding[] | undefined, reference: Point): Binding | null {
-  if (!bindings || bindings.length === 0) return null;
-  let best: Binding | null = null;
-  for (const binding of bindings) {
-    if (comparePoints(binding.start, reference) <= 0) {
-      best = binding; // bindings are added in document order; keep the last one before the reference
+/** Whether `position` lies before the body of a function or class scope's definition. */
+function inDefinitionHeader(scope: Scope, position: Point): boolean {
+  if (scope.kind !== 'function' && scope.kind !== 'class') return false;
+  const body = scope.node.childForFieldName('body');
+  return !!body && comparePoints(position, body.startPosition) < 0;
+}
+
+/**
+ * The last binding of `name` in `scope` before the reference (or the first
+ * one, for forward references), preceded by the earlier bindings that sit in
+ * branches mutually exclusive with every binding already picked.
+ */
+function pickBindings(scope: Scope, name: string, reference: Point): Binding[] {
+  const bindings = scope.bindings.get(name);
+  if (!bindings || bindings.length === 0) return [];
+  // Bindings are added in document order.
+  let last = -1;
+  for (let i = 0; i < bindings.length; i++) {
+    if (comparePoints(bindings[i].start, reference) <= 0) last = i;
+  }
+  if (last === -1) return [bindings[0]];
+
+  const root = scope.node.tree.rootNode;
+  const nodeOf = (binding: Binding): Node | null => root.descendantForPosition(binding.start, binding.end);
+  const picked = [bindings[last]];
+  const pickedNodes = [nodeOf(bindings[last])];
+  for (let i = last - 1; i >= 0; i--) {
+    const node = nodeOf(bindings[i]);
+    if (!node || !pickedNodes.every(other => other && inExclusiveBranches(node, other))) break;
+    picked.unshift(bindings[i]);
+    pickedNodes.unshift(node);
+  }
+  return picked;
+}
+
+/**
+ * Whether two nodes sit in branches of the same `if`, `try` or `match` that
+ * can't both run: different `if`/`elif`/`else` branches or `match` cases, or
+ * a `try` body/`else` against an `except` handler (or two handlers).
+ */
+function inExclusiveBranches(a: Node, b: Node): boolean {
+  const branchOfA = new Map<number, Node>();
+  for (let child = a; child.parent; child = child.parent) branchOfA.set(child.parent.id, child);
+
+  for (let child = b; child.parent; child = child.parent) {
+    const statement = child.parent;
+    const other = branchOfA.get(statement.id);
+    if (!other) continue;
+    // `statement` is the lowest common ancestor; `child`/`other` the branches.
+    if (other.id === child.id) return false;
+    switch (statement.type) {
+      case 'if_statement': {
+        const condition = statement.childForFieldName('condition');
+        return other.id !== condition?.id && child.id !== condition?.id;
+      }
+      case 'try_statement': {
+        const handlers = [other, child].filter(branch => branch.type === 'except_clause').length;
+        const finals = [other, child].filter(branch => branch.type === 'finally_clause').length;
+        return handlers > 0 && finals === 0;
+      }
+      case 'block':
+        // The cases of a `match` statement.
+        return statement.parent?.type === 'match_statement';
+      default:
+        return false;
     }
   }
-  return best ?? bindings[0];
+  return false;
 }
 
 /** Look up a module-level (exported) binding by name. */
@@ -402,3 +832,98 @@ export function findModuleBinding(root: Scope, name: string): Binding | null {
   // Prefer real definitions over import re-bindings.
   return bindings.find(b => b.kind !== 'import') ?? bindings[0];
 }
+
+/**
+ * Every module-level binding `name` may end up as once the module has run:
+ * the last one plus earlier ones in mutually exclusive branches, as
+ * {@link resolveNameCandidates} picks them. A single candidate is the one
+ * {@link findModuleBinding} returns.
+ */
+export function findModuleBindings(root: Scope, name: string): Binding[] {
+  const candidates = pickBindings(root, name, root.node.endPosition);
+  if (candidates.length > 1) return candidates;
+  const binding = findModuleBinding(root, name);
+  return binding ? [binding] : [];
+}
+
+/**
+ * Whether `from module import *` brings `name` in: listed in a literal
+ * `__all__` when the module defines one, otherwise any name without a
+ * leading underscore.
+ */
+export function isWildcardExported(root: Scope, name: string): boolean {
+  const all = dunderAll(root);
+  return all ? all.includes(name) : !name.startsWith('_');
+}
+
+/**
+ * Names listed by module-level `__all__ = [...]`/`(...)` and `__all__ += [...]`
+ * assignments of string literals. Returns null when there is no `__all__` or
+ * it is computed in a way we can't read statically.
+ */
+export function dunderAll(root: Scope): string[] | null {
+  let names: string[] | null = null;
+  for (const statement of root.node.namedChildren) {
+    const assignment = statement?.type === 'expression_statement' ? statement.namedChildren[0] : null;
+    if (assignment?.type !== 'assignment' && assignment?.type !== 'augmented_assignment') continue;
+    if (assignment.childForFieldName('left')?.text !== '__all__') continue;
+
+    const listed = stringSequence(assignment.childForFieldName('right'));
+    if (!listed) return null;
+    names = assignment.type === 'assignment' ? listed : [...(names ?? []), ...listed];
+  }
+  return names;
+}
+
+/** The `string_content` nodes spelling `name` in module-level `__all__` lists. */
+export function dunderAllEntries(root: Scope, name: string): Node[] {
+  const entries: Node[] = [];
+  for (const statement of root.node.namedChildren) {
+    const assignment = statement?.type === 'expression_statement' ? statement.namedChildren[0] : null;
+    if (assignment?.type !== 'assignment' && assignment?.type !== 'augmented_assignment') continue;
+    if (assignment.childForFieldName('left')?.text !== '__all__') continue;
+
+    const right = assignment.childForFieldName('right');
+    if (right?.type !== 'list' && right?.type !== 'tuple') continue;
+    for (const element of right.namedChildren) {
+      if (element?.type !== 'string' || stringLiteralValue(element) !== name) continue;
+      const content = element.namedChildren.find(child => child?.type === 'string_content');
+      if (content) entries.push(content);
+    }
+  }
+  return entries;
+}
+
+function stringSequence(node: Node | null): string[] | null {
+  if (node?.type !== 'list' && node?.type !== 'tuple') return null;
+  const values: string[] = [];
+  for (const element of node.namedChildren) {
+    const value = element ? stringLiteralValue(element) : null;
+    if (value === null) return null;
+    values.push(value);
+  }
+  return values;
+}
+
+/** Value of a plain (non-f, non-bytes) string literal, including implicit concatenation. */
+export function stringLiteralValue(node: Node): string | null {
+  if (node.type === 'concatenated_string') {
+    let value = '';
+    for (const part of node.namedChildren) {
+      const partValue = part ? stringLiteralValue(part) : null;
+      if (partValue === null) return null;
+      value += partValue;
+    }
+    return value;
+  }
+  if (node.type !== 'string') return null;
+
+  let value = '';
+  for (const child of node.namedChildren) {
+    if (!child) continue;
+    if (child.type === 'string_start' && /[fFbB]/.test(child.text)) return null;
+    if (child.type === 'interpolation') return null;
+    if (child.type === 'string_content') value += child.text;
+  }
+  return value;
+}
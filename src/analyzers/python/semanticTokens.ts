@@ -0,0 +1,173 @@
+import type { Node } from 'web-tree-sitter';
+import type {
+  DefinitionLocation,
+  DocumentSymbolKind,
+  SemanticTokenModifier,
+  SemanticTokenType
+} from '../../types';
+import type { ParsedModule } from './moduleCache';
+import { selfClass } from './highlights';
+import { definitionKind } from './outline';
+import {
+  Binding,
+  Scope,
+  bindingAt,
+  definitionScope,
+  findClassMember,
+  resolveNameCandidates,
+  scopeAt,
+  scopeOfBinding
+} from './scopes';
+
+/**
+ * Semantic token classification from the scope tree of one module: each
+ * identifier is coloured by the kind of binding it resolves to. Imports and
+ * unbound names (builtins) depend on other modules; they are handed back to
+ * the analyzer to resolve on each request.
+ */
+
+export interface TokenStyle {
+  type: SemanticTokenType;
+  modifiers: SemanticTokenModifier[];
+}
+
+/** How an identifier is coloured, or what must be resolved to know. */
+export type TokenClass =
+  | ({ kind: 'style' } & TokenStyle)
+  | { kind: 'import'; binding: Binding; declaration: boolean }
+  | { kind: 'builtin'; name: string };
+
+/** A classified identifier of a module. */
+export interface ClassifiedIdentifier {
+  range: DefinitionLocation['range'];
+  tokenClass: TokenClass;
+}
+
+/**
+ * Every identifier of `module` with a class, in document order. This depends
+ * on the module alone, so it can be kept as long as the parse is.
+ */
+export function classifyModule(module: ParsedModule): ClassifiedIdentifier[] {
+  const classified: ClassifiedIdentifier[] = [];
+  for (const node of module.tree.rootNode.descendantsOfType('identifier')) {
+    const tokenClass = node && classifyIdentifier(module, node);
+    if (!node || !tokenClass) continue;
+    const { startPosition: start, endPosition: end } = node;
+    classified.push({
+      range: {
+        startLineNumber: start.row + 1,
+        startColumn: start.column + 1,
+        endLineNumber: end.row + 1,
+        endColumn: end.column + 1
+      },
+      tokenClass
+    });
+  }
+  return classified;
+}
+
+/** The class of the identifier `node` in `module`; null for names left to the grammar's colouring. */
+export function classifyIdentifier(module: ParsedModule, node: Node): TokenClass | null {
+  const parent = node.parent;
+  if (parent?.type === 'attribute' && parent.childForFieldName('attribute')?.id === node.id) {
+    return memberClass(module, parent, node);
+  }
+  if (parent?.type === 'keyword_argument' && parent.childForFieldName('name')?.id === node.id) {
+    return { kind: 'style', type: 'parameter', modifiers: [] };
+  }
+
+  const declared = bindingAt(module.scope, node.startPosition);
+  const importStatement = declared ? null : ancestorOfType(node, IMPORT_STATEMENTS);
+  if (importStatement) return importPathClass(module, node, importStatement);
+  const binding =
+    declared ??
+    resolveNameCandidates(scopeAt(module.scope, node.startPosition), node.text, node.startPosition)[0];
+  if (!binding) return { kind: 'builtin', name: node.text };
+  if (binding.kind === 'import') return { kind: 'import', binding, declaration: declared !== null };
+  const style = bindingStyle(module.scope, binding);
+  return style && { kind: 'style', ...withDeclaration(style, declared !== null) };
+}
+
+/**
+ * The style of a non-import `binding` of the module whose scope tree is
+ * `root`: methods and properties apart from functions, class-level variables
+ * as properties, ALL_CAPS module variables as `readonly`.
+ */
+export function bindingStyle(root: Scope, binding: Binding): TokenStyle | null {
+  const owner = scopeOfBinding(root, binding);
+  switch (binding.kind) {
+    case 'function':
+    case 'class': {
+      const defined = definitionScope(root, binding);
+      const kind = owner && defined ? definitionKind(owner, binding, defined) : binding.kind;
+      return { type: DEFINITION_TYPES[kind] ?? 'function', modifiers: [] };
+    }
+    case 'variable':
+      if (owner?.kind === 'class') return { type: 'property', modifiers: [] };
+      return {
+        type: 'variable',
+        modifiers: owner?.kind === 'module' && /^[A-Z][A-Z0-9_]*$/.test(binding.name) ? ['readonly'] : []
+      };
+    case 'parameter':
+      return { type: 'parameter', modifiers: [] };
+    case 'attribute':
+      return { type: 'property', modifiers: [] };
+    case 'typeParameter':
+      return { type: 'typeParameter', modifiers: [] };
+    case 'typeAlias':
+      return { type: 'type', modifiers: [] };
+    case 'import':
+      return null;
+  }
+}
+
+export function withDeclaration(style: TokenStyle, declaration: boolean): TokenStyle {
+  return declaration ? { ...style, modifiers: ['declaration', ...style.modifiers] } : style;
+}
+
+const IMPORT_STATEMENTS = ['import_statement', 'import_from_statement'];
+
+const DEFINITION_TYPES: Partial<Record<DocumentSymbolKind, SemanticTokenType>> = {
+  class: 'class',
+  enum: 'class',
+  function: 'function',
+  method: 'method',
+  constructor: 'method',
+  property: 'property'
+};
+
+/** `self.x` / `cls.x` members of the enclosing class; other attributes need inference and are skipped. */
+function memberClass(module: ParsedModule, attribute: Node, node: Node): TokenClass | null {
+  const object = attribute.childForFieldName('object');
+  const classScope = object?.type === 'identifier' ? selfClass(module, object) : null;
+  const member = classScope && findClassMember(classScope, node.text);
+  const style = member && bindingStyle(module.scope, member);
+  if (!style) return null;
+  return { kind: 'style', ...withDeclaration(style, bindingAt(module.scope, node.startPosition) !== null) };
+}
+
+/**
+ * A name in an import statement that binds nothing itself: the original name
+ * of `from m import x as y` (coloured like `y`), or a module path segment.
+ */
+function importPathClass(module: ParsedModule, node: Node, statement: Node): TokenClass {
+  const aliased = ancestorOfType(node, ['aliased_import']);
+  const name = aliased?.childForFieldName('name');
+  const alias = aliased?.childForFieldName('alias');
+  if (statement.type === 'import_from_statement' && name && alias && isWithin(node, name)) {
+    const binding = bindingAt(module.scope, alias.startPosition);
+    if (binding) return { kind: 'import', binding, declaration: false };
+  }
+  return { kind: 'style', type: 'namespace', modifiers: [] };
+}
+
+function ancestorOfType(node: Node, types: string[]): Node | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (types.includes(current.type)) return current;
+  }
+  return null;
+}
+
+function isWithin(node: Node, container: Node): boolean {
+  return node.startIndex >= container.startIndex && node.endIndex <= container.endIndex;
+}
@@ -1,37 +1,78 @@
+export { CallHierarchyProvider } from './CallHierarchyProvider';
 export { DefinitionProvider, createDefinitionProvider } from './DefinitionProvider';
+export { DocumentHighlightProvider } from './DocumentHighlightProvider';
+export { DocumentSymbolProvider } from './DocumentSymbolProvider';
+export { HoverProvider } from './HoverProvider';
+export { ReferenceProvider } from './ReferenceProvider';
+export { RenameProvider } from './RenameProvider';
+export { SemanticTokensProvider } from './SemanticTokensProvider';
+export { WorkspaceSymbolProvider } from './WorkspaceSymbolProvider';
 export { TsWorkerStrategy, configureTypeScriptDefaults } from './tsWorker';
 export { PythonAnalyzer } from './analyzers/python/PythonAnalyzer';
 export { createPythonParser, initPythonLanguage } from './analyzers/python/parser';
 export { WorkspaceIndex } from './workspace/WorkspaceIndex';
 export {
+  absolutePythonImport,
   resolvePythonImport,
   resolveTsImport,
   commonRoot,
   uriDirname,
   uriJoin
 } from './workspace/moduleResolver';
+export { notebookCellUri, parseNotebookCellUri } from './workspace/notebook';
+export {
+  PYTHON_STDLIB_ROOT,
+  PYTHON_STDLIB_SCHEME,
+  isPythonStdlibUri
+} from './workspace/pythonStdlib';
 
 export type { PythonParserOptions } from './analyzers/python/parser';
 export type { WorkspaceIndexOptions } from './workspace/WorkspaceIndex';
 export type { TsWorkerStrategyOptions } from './tsWorker';
+export type { WorkspaceSymbolProviderOptions } from './WorkspaceSymbolProvider';
 export type {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CancellationToken,
   DefinitionLocation,
   DefinitionProviderOptions,
+  DefinitionRegistrationOptions,
+  DocumentHighlight,
+  DocumentSymbol,
+  DocumentSymbolKind,
   FallbackNavigationHook,
+  Hover,
   LanguageAnalyzer,
   LoadFileHook,
+  ModuleFlavor,
+  NotebookCell,
+  NotebookCellHook,
+  NotebookCellUriHook,
+  NotebookExecutionOrderHook,
+  NotebookOptions,
   PythonOptions,
+  RenameLocation,
+  RenameRejection,
   ResolveModuleUriHook,
+  SemanticToken,
+  SemanticTokenModifier,
+  SemanticTokenType,
+  TextEdit,
   TypeScriptOptions,
   WorkspaceAccess,
-  WorkspaceDocument
+  WorkspaceDocument,
+  WorkspaceSymbol,
+  WorkspaceSymbolPicker
 } from './types';
 export type {
+  CodeEditorLike,
   DefinitionInfoLike,
   DisposableLike,
   LanguageServiceDefaultsLike,
   MonacoLike,
   PositionLike,
+  RangeLike,
   TextModelLike,
   TypeScriptNamespaceLike,
   TypeScriptWorkerLike,
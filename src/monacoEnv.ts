@@ -18,6 +18,13 @@ export interface PositionLike {
   column: number;
 }
 
+export interface RangeLike {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
 export interface TextModelLike {
   uri: UriLike;
   getValue(): string;
@@ -28,6 +35,21 @@ export interface TextModelLike {
   onWillDispose(listener: () => void): DisposableLike;
 }
 
+/** A code editor instance (`monaco.editor.IStandaloneCodeEditor`). */
+export interface CodeEditorLike {
+  getModel(): TextModelLike | null;
+  setModel(model: TextModelLike): void;
+  setSelection(range: RangeLike): void;
+  revealRangeInCenter(range: RangeLike): void;
+  focus(): void;
+  addAction(descriptor: {
+    id: string;
+    label: string;
+    keybindings?: number[];
+    run(): void | Promise<void>;
+  }): DisposableLike;
+}
+
 export interface TypeScriptWorkerLike {
   getDefinitionAtPosition(
     fileName: string,
@@ -63,6 +85,20 @@ export interface MonacoLike {
   };
   languages: {
     registerDefinitionProvider(languageId: string, provider: object): DisposableLike;
+    registerTypeDefinitionProvider(languageId: string, provider: object): DisposableLike;
+    registerImplementationProvider(languageId: string, provider: object): DisposableLike;
+    registerReferenceProvider(languageId: string, provider: object): DisposableLike;
+    registerRenameProvider(languageId: string, provider: object): DisposableLike;
+    registerDocumentHighlightProvider(languageId: string, provider: object): DisposableLike;
+    registerHoverProvider(languageId: string, provider: object): DisposableLike;
+    registerDocumentSymbolProvider(languageId: string, provider: object): DisposableLike;
+    registerDocumentSemanticTokensProvider(languageId: string, provider: object): DisposableLike;
+    registerDocumentRangeSemanticTokensProvider(languageId: string, provider: object): DisposableLike;
+    /**
+     * Not in monaco-editor's published API; present in builds and
+     * VS Code-derived hosts that ship the call hierarchy contribution.
+     */
+    registerCallHierarchyProvider?(languageId: string, provider: object): DisposableLike;
     typescript?: TypeScriptNamespaceLike;
   };
   Uri: {
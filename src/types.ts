@@ -12,10 +12,159 @@ export interface DefinitionLocation {
   };
 }
 
+/** Replace `range` of document `uri` with `text`. */
+export interface TextEdit {
+  uri: string;
+  range: DefinitionLocation['range'];
+  text: string;
+}
+
+/** The identifier a rename applies to. */
+export interface RenameLocation {
+  range: DefinitionLocation['range'];
+  text: string;
+}
+
+/** Why a rename cannot be performed; shown to the user by Monaco. */
+export interface RenameRejection {
+  rejectReason: string;
+}
+
+/** One occurrence of the symbol under the cursor, for Monaco's document highlights. */
+export interface DocumentHighlight {
+  range: DefinitionLocation['range'];
+  /** `'write'` for binding sites (assignments, parameters, imports, definitions). */
+  kind: 'read' | 'write';
+}
+
+/** What a {@link DocumentSymbol} is; mapped onto Monaco's `SymbolKind`. */
+export type DocumentSymbolKind =
+  | 'class'
+  | 'enum'
+  | 'enumMember'
+  | 'method'
+  | 'constructor'
+  | 'property'
+  | 'field'
+  | 'function'
+  | 'variable'
+  | 'constant'
+  | 'module';
+
+/** An entry of a document's outline. */
+export interface DocumentSymbol {
+  name: string;
+  kind: DocumentSymbolKind;
+  /** The whole definition, decorators and body included. */
+  range: DefinitionLocation['range'];
+  /** The name, within `range`. */
+  selectionRange: DefinitionLocation['range'];
+  children: DocumentSymbol[];
+}
+
+/** A symbol found by workspace symbol search. */
+export interface WorkspaceSymbol {
+  name: string;
+  kind: DocumentSymbolKind;
+  /** The enclosing class or function, or the module for top-level symbols. */
+  containerName?: string;
+  /** Where the symbol's name is. */
+  location: DefinitionLocation;
+}
+
+/**
+ * Host quick-open UI for workspace symbols: show a picker that calls `search`
+ * as the user types, and resolve to the chosen symbol (or nothing when
+ * cancelled).
+ */
+export type WorkspaceSymbolPicker = (
+  search: (query: string) => Promise<WorkspaceSymbol[]>
+) => Promise<WorkspaceSymbol | null | undefined>;
+
+/** A function, method or class in a call hierarchy, or a module for top-level code. */
+export interface CallHierarchyItem {
+  name: string;
+  kind: DocumentSymbolKind;
+  /** Where it is defined: the module, and any enclosing classes and functions (`shop.orders.Cart`). */
+  detail?: string;
+  uri: string;
+  /** The whole definition; an empty range at 1:1 for a module. */
+  range: DefinitionLocation['range'];
+  /** The name, within `range`. */
+  selectionRange: DefinitionLocation['range'];
+  /**
+   * Language of the analyzer that produced the item, stamped by
+   * `CallHierarchyProvider` so items in files without a Monaco model expand too.
+   */
+  languageId?: string;
+}
+
+/** Calls made by `from` to the item asked about. */
+export interface CallHierarchyIncomingCall {
+  from: CallHierarchyItem;
+  /** The callee names of the calls, in `from`'s document. */
+  fromRanges: DefinitionLocation['range'][];
+}
+
+/** Calls the item asked about makes to `to`. */
+export interface CallHierarchyOutgoingCall {
+  to: CallHierarchyItem;
+  /** The callee names of the calls, in the calling item's document. */
+  fromRanges: DefinitionLocation['range'][];
+}
+
+/** What a {@link SemanticToken} names; the legend's token types. */
+export type SemanticTokenType =
+  | 'namespace'
+  | 'class'
+  | 'type'
+  | 'typeParameter'
+  | 'parameter'
+  | 'variable'
+  | 'property'
+  | 'function'
+  | 'method';
+
+/**
+ * `declaration` marks binding sites, `readonly` ALL_CAPS module-level
+ * constants, `defaultLibrary` builtins and standard-library symbols.
+ */
+export type SemanticTokenModifier = 'declaration' | 'readonly' | 'defaultLibrary';
+
+/** An identifier classified by what it resolves to. */
+export interface SemanticToken {
+  /** The identifier; always within one line. */
+  range: DefinitionLocation['range'];
+  type: SemanticTokenType;
+  modifiers: SemanticTokenModifier[];
+}
+
+/** Hover content for the symbol under the cursor. */
+export interface Hover {
+  /** The span the hover applies to, usually the identifier. */
+  range: DefinitionLocation['range'];
+  /** Markdown blocks, one per definition the symbol resolves to. */
+  contents: string[];
+}
+
 /** A document the library can read — an open Monaco model or host-loaded content. */
 export interface WorkspaceDocument {
   uri: string;
   getValue(): string;
+  /**
+   * Set for a notebook composed of several cell models: its code cells in
+   * order. The value is their sources joined by newlines.
+   */
+  cells?: NotebookCell[];
+}
+
+/** Where one cell model sits within its notebook document. */
+export interface NotebookCell {
+  /** URI of the cell's own model. */
+  uri: string;
+  /** 0-based notebook line of the cell's first line. */
+  lineOffset: number;
+  lineCount: number;
 }
 
 /**
@@ -29,10 +178,38 @@ export interface WorkspaceAccess {
    * Resolve an import specifier (e.g. Python "..utils.helpers") from a file
    * to a document — checking open models first, then asking the host's
    * `loadFile` hook. Returns null when nothing can provide the file.
+   * `flavor` (default `'implementation'`) picks between `.py` and `.pyi`.
+   */
+  resolveImport(
+    importPath: string,
+    fromUri: string,
+    flavor?: ModuleFlavor
+  ): Promise<WorkspaceDocument | null>;
+  /**
+   * The notebook document a cell model belongs to, or null for ordinary
+   * models. Only implemented when notebook mode is enabled.
    */
-  resolveImport(importPath: string, fromUri: string): Promise<WorkspaceDocument | null>;
+  getNotebook?(cellUri: string): WorkspaceDocument | null;
+  /**
+   * Every tracked document — open models and those loaded so far — optionally
+   * only those of one language. Notebook cells appear as their notebook.
+   * Workspace-wide features (references, rename, …) search these.
+   */
+  getDocuments?(languageId?: string): WorkspaceDocument[];
+  /**
+   * Dotted module name of a tracked Python document (`pkg.mod` for
+   * `<root>/pkg/mod.py`), relative to the roots absolute imports resolve
+   * against. Null when no root contains it.
+   */
+  moduleName?(uri: string): string | null;
 }
 
+/**
+ * Which file of a Python module to prefer: the `.py` implementation or the
+ * `.pyi` stub. The other flavor is still used when the preferred one is missing.
+ */
+export type ModuleFlavor = 'implementation' | 'stub';
+
 /**
  * Host hook: the library believes a file exists at `uri` but has no model
  * for it. The host fetches it (server, virtual FS, …) and returns its
@@ -68,6 +245,37 @@ export type FallbackNavigationHook = (context: {
   fromUri: string;
 }) => Promise<DefinitionLocation | null>;
 
+/**
+ * Host hook: which notebook a model belongs to, and the cell's index in it.
+ * Return null for models that are not notebook cells.
+ */
+export type NotebookCellHook = (uri: string) => { notebookUri: string; index: number } | null;
+
+/** Host hook: the URI to give the model of cell `index` of a loaded notebook. */
+export type NotebookCellUriHook = (notebookUri: string, index: number) => string;
+
+/**
+ * Host hook: the execution count of a cell model (the `[n]` Jupyter shows), or
+ * null for a cell that has not run.
+ */
+export type NotebookExecutionOrderHook = (cellUri: string) => number | null;
+
+/**
+ * Notebook mode: cell models sharing a notebook form one module, in execution
+ * order — cells that ran by execution count, then cells that never ran in
+ * cell order. Cells are recognised as `<notebook>#cell-<index>` unless both
+ * hooks are replaced.
+ */
+export interface NotebookOptions {
+  cellOf?: NotebookCellHook;
+  cellUri?: NotebookCellUriHook;
+  /**
+   * Execution counts of open cells. Defaults to the `execution_count` saved in
+   * `.ipynb` files loaded through `loadFile`; cells without one count as not run.
+   */
+  executionOrder?: NotebookExecutionOrderHook;
+}
+
 export interface PythonOptions {
   /**
    * URL/path to tree-sitter-python.wasm, or the wasm bytes directly.
@@ -76,6 +284,26 @@ export interface PythonOptions {
   grammarWasm?: string | Uint8Array;
   /** Emscripten locateFile for web-tree-sitter's core runtime wasm. */
   locateFile?: (fileName: string, scriptDirectory: string) => string;
+  /**
+   * Where definitions land when a module has both a `.pyi` stub and a `.py`
+   * implementation: `'implementation'` (default), `'stub'`, or `'both'` (one
+   * location each). Stub-only and implementation-only modules are always used.
+   */
+  stubs?: 'implementation' | 'stub' | 'both';
+  /**
+   * Base URIs for absolute imports, in priority order like `sys.path`
+   * (e.g. `['file:///repo/src', 'file:///repo/libs']`). Replaces the guessed
+   * common root of open models. Namespace packages (no `__init__.py`) may span
+   * several of them, relative imports included.
+   */
+  searchPaths?: string[];
+  /**
+   * Navigate builtins (`len`, `Exception`) and standard-library imports
+   * (`os.path.join`) into bundled offline stubs, served as read-only models
+   * under `python-stdlib://bundled/`. Workspace modules still shadow them.
+   * Default: false.
+   */
+  stdlibStubs?: boolean;
 }
 
 export interface TypeScriptOptions {
@@ -86,12 +314,33 @@ export interface TypeScriptOptions {
   ignoreLibFiles?: boolean;
 }
 
+/** Options for {@link DefinitionProvider.register}. */
+export interface DefinitionRegistrationOptions {
+  /**
+   * Also register as Monaco's TypeDefinitionProvider ("Go to Type
+   * Definition"), for analyzers implementing `provideTypeDefinition`.
+   */
+  typeDefinition?: boolean;
+  /**
+   * Also register as Monaco's ImplementationProvider ("Go to
+   * Implementation"), for analyzers implementing `provideImplementation`.
+   */
+  implementation?: boolean;
+}
+
 export interface DefinitionProviderOptions {
   loadFile?: LoadFileHook;
   resolveModuleUri?: ResolveModuleUriHook;
   fallbackNavigation?: FallbackNavigationHook;
   python?: PythonOptions;
   typescript?: TypeScriptOptions;
+  /** Enable notebook mode (see {@link NotebookOptions}); `{}` keeps the default URI convention. */
+  notebooks?: NotebookOptions;
+}
+
+/** Signals that a request's result is no longer wanted; Monaco's CancellationToken fits. */
+export interface CancellationToken {
+  isCancellationRequested: boolean;
 }
 
 /**
@@ -104,5 +353,87 @@ export interface LanguageAnalyzer {
     position: { lineNumber: number; column: number },
     workspace: WorkspaceAccess
   ): Promise<DefinitionLocation[] | null>;
+  /** The definition of the type of the value at `position` (its class). */
+  provideTypeDefinition?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null>;
+  /** Overrides of the method (or subclasses of the class) at `position`, across the workspace. */
+  provideImplementation?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<DefinitionLocation[] | null>;
+  /**
+   * Every location referring to the symbol at `position`, across the
+   * workspace. Workspace-wide searches should stop early once `token` is
+   * cancelled.
+   */
+  provideReferences?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess,
+    context: { includeDeclaration: boolean },
+    token?: CancellationToken
+  ): Promise<DefinitionLocation[] | null>;
+  /** The identifier a rename at `position` would change, or why it cannot be renamed. */
+  prepareRename?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess,
+    token?: CancellationToken
+  ): Promise<RenameLocation | RenameRejection | null>;
+  /** Edits renaming the symbol at `position` to `newName` across the workspace. */
+  provideRenameEdits?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    newName: string,
+    workspace: WorkspaceAccess,
+    token?: CancellationToken
+  ): Promise<TextEdit[] | RenameRejection | null>;
+  /**
+   * Occurrences, within `doc` only, of the symbol at `position`. Called on
+   * every cursor move, so implementations should avoid cross-file work.
+   */
+  provideDocumentHighlights?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<DocumentHighlight[] | null>;
+  /** Signature, documentation and origin of the definition of the symbol at `position`. */
+  provideHover?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<Hover | null>;
+  /** The outline of `doc`: its classes, functions and variables, nested by scope. */
+  provideDocumentSymbols?(doc: WorkspaceDocument, workspace: WorkspaceAccess): Promise<DocumentSymbol[] | null>;
+  /**
+   * Identifiers of `doc` classified by what they resolve to, in document
+   * order; only those on the lines of `range` when it is given. Called on
+   * every edit.
+   */
+  provideSemanticTokens?(
+    doc: WorkspaceDocument,
+    workspace: WorkspaceAccess,
+    range?: DefinitionLocation['range']
+  ): Promise<SemanticToken[] | null>;
+  /** The functions or classes the symbol at `position` resolves to, as call hierarchy roots. */
+  prepareCallHierarchy?(
+    doc: WorkspaceDocument,
+    position: { lineNumber: number; column: number },
+    workspace: WorkspaceAccess
+  ): Promise<CallHierarchyItem[] | null>;
+  /** Calls to `item` from the workspace's documents, grouped by calling definition. */
+  provideIncomingCalls?(
+    item: CallHierarchyItem,
+    workspace: WorkspaceAccess
+  ): Promise<CallHierarchyIncomingCall[] | null>;
+  /** Calls made by `item`'s own body, grouped by callee. */
+  provideOutgoingCalls?(
+    item: CallHierarchyItem,
+    workspace: WorkspaceAccess
+  ): Promise<CallHierarchyOutgoingCall[] | null>;
   dispose?(): void;
 }
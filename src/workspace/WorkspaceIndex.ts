@@ -1,17 +1,41 @@
 import { MonacoLike, TextModelLike, DisposableLike } from '../monacoEnv';
 import {
   LoadFileHook,
+  ModuleFlavor,
+  NotebookOptions,
   ResolveModuleUriHook,
   WorkspaceAccess,
   WorkspaceDocument
 } from '../types';
-import { commonRoot, resolvePythonImport, uriDirname } from './moduleResolver';
+import {
+  absolutePythonImport,
+  commonRoot,
+  resolvePythonImport,
+  uriDirname,
+  uriJoin,
+  uriWithoutTrailingSlash
+} from './moduleResolver';
+import {
+  composeNotebook,
+  inExecutionOrder,
+  isNotebookUri,
+  notebookCellUri,
+  parseNotebookCellUri,
+  parseNotebookJson
+} from './notebook';
+import { PYTHON_STDLIB_ROOT, isPythonStdlibUri, pythonStdlibSource } from './pythonStdlib';
 
 export interface WorkspaceIndexOptions {
   loadFile?: LoadFileHook;
   resolveModuleUri?: ResolveModuleUriHook;
   /** Language assigned to models created from loadFile results without an explicit languageId. */
   defaultLanguageId?: string;
+  /** Ordered roots for absolute Python imports; when empty, roots are guessed from open models. */
+  pythonSearchPaths?: string[];
+  /** Serve the bundled builtins/stdlib stubs for absolute Python imports. */
+  pythonStdlibStubs?: boolean;
+  /** Treat cell models sharing a notebook URI as one document. */
+  notebooks?: NotebookOptions;
 }
 
 /**
@@ -19,21 +43,34 @@ export interface WorkspaceIndexOptions {
  *
  * Resolution order:
  * 1. the host's `resolveModuleUri` hook (when provided) supplies candidate URIs,
- *    otherwise built-in Python path heuristics compute them;
+ *    otherwise built-in Python resolution computes them against the configured
+ *    search paths (or roots guessed from open models);
  * 2. candidates are matched against open models;
- * 3. unmatched candidates are offered to the host's `loadFile` hook — returned
- *    content becomes a real Monaco model so later navigation works natively.
+ * 3. remaining candidates are offered to the host's `loadFile` hook — returned
+ *    content becomes a real Monaco model so later navigation works natively;
+ * 4. with `pythonStdlibStubs`, bundled stdlib stubs become models of their own
+ *    (see {@link PYTHON_STDLIB_ROOT}), so project files shadow the stdlib.
+ *
+ * In notebook mode a notebook URI names a document composed of its cell
+ * models, and a loaded `.ipynb` becomes one model per code cell.
  */
 export class WorkspaceIndex implements WorkspaceAccess {
   private readonly models = new Map<string, TextModelLike>();
   private readonly disposables: DisposableLike[] = [];
   /** De-duplicates concurrent loadFile calls for the same URI. */
   private readonly pendingLoads = new Map<string, Promise<WorkspaceDocument | null>>();
+  /** Execution counts saved in loaded `.ipynb` files, by cell URI. */
+  private readonly executionCounts = new Map<string, number>();
+  /** Whether a package directory is a namespace package portion; cleared when models come or go. */
+  private readonly namespacePackages = new Map<string, boolean>();
+  /** Configured Python search paths, without trailing slashes. */
+  private readonly searchPaths: string[];
 
   constructor(
     private readonly monaco: MonacoLike,
     private readonly options: WorkspaceIndexOptions = {}
   ) {
+    this.searchPaths = (options.pythonSearchPaths ?? []).map(uriWithoutTrailingSlash);
     for (const model of monaco.editor.getModels()) {
       this.trackModel(model);
     }
@@ -43,21 +80,78 @@ export class WorkspaceIndex implements WorkspaceAccess {
   private trackModel(model: TextModelLike): void {
     const uri = model.uri.toString();
     this.models.set(uri, model);
+    this.namespacePackages.clear();
     this.disposables.push(
       model.onWillDispose(() => {
         this.models.delete(uri);
+        this.executionCounts.delete(uri);
+        this.namespacePackages.clear();
       })
     );
   }
 
   getDocument(uri: string): WorkspaceDocument | null {
     const model = this.models.get(uri);
-    if (!model || model.isDisposed()) return null;
+    if (!model || model.isDisposed()) return this.notebookDocument(uri);
     return { uri, getValue: () => model.getValue() };
   }
 
-  async resolveImport(importPath: string, fromUri: string): Promise<WorkspaceDocument | null> {
-    const candidates = await this.candidateUris(importPath, fromUri);
+  getDocuments(languageId?: string): WorkspaceDocument[] {
+    const documents: WorkspaceDocument[] = [];
+    const notebooks = new Set<string>();
+    for (const [uri, model] of this.models) {
+      if (model.isDisposed() || (languageId && model.getLanguageId() !== languageId)) continue;
+      const cell = this.options.notebooks && this.cellOf(uri);
+      if (!cell) {
+        documents.push({ uri, getValue: () => model.getValue() });
+      } else if (!notebooks.has(cell.notebookUri)) {
+        notebooks.add(cell.notebookUri);
+        const notebook = this.notebookDocument(cell.notebookUri);
+        if (notebook) documents.push(notebook);
+      }
+    }
+    return documents;
+  }
+
+  getNotebook(cellUri: string): WorkspaceDocument | null {
+    const cell = this.options.notebooks && this.cellOf(cellUri);
+    return cell ? this.notebookDocument(cell.notebookUri) : null;
+  }
+
+  moduleName(uri: string): string | null {
+    const roots = isPythonStdlibUri(uri) ? [PYTHON_STDLIB_ROOT] : this.pythonRoots(uri);
+    // Roots are in priority order; the fallback root (the file's own dir) comes last.
+    const root = roots.find(candidate => uri.startsWith(`${candidate}/`));
+    if (!root) return null;
+    const path = uri.slice(root.length + 1).split(/[?#]/)[0];
+    return path.replace(/\.(pyi?|ipynb)$/, '').replace(/(^|\/)__init__$/, '').split('/').join('.') || null;
+  }
+
+  /** The notebook composed of the open cell models that name `uri` as theirs, in execution order. */
+  private notebookDocument(uri: string): WorkspaceDocument | null {
+    if (!this.options.notebooks) return null;
+    const executionOrder = this.options.notebooks.executionOrder;
+    const cells: Array<{ index: number; executionCount: number | null; uri: string; getValue(): string }> = [];
+    for (const [cellUri, model] of this.models) {
+      const cell = this.cellOf(cellUri);
+      if (cell?.notebookUri !== uri || model.isDisposed()) continue;
+      const executionCount = executionOrder ? executionOrder(cellUri) : (this.executionCounts.get(cellUri) ?? null);
+      cells.push({ index: cell.index, executionCount, uri: cellUri, getValue: () => model.getValue() });
+    }
+    if (cells.length === 0) return null;
+    return composeNotebook(uri, inExecutionOrder(cells));
+  }
+
+  private cellOf(uri: string): { notebookUri: string; index: number } | null {
+    return (this.options.notebooks?.cellOf ?? parseNotebookCellUri)(uri);
+  }
+
+  async resolveImport(
+    importPath: string,
+    fromUri: string,
+    flavor: ModuleFlavor = 'implementation'
+  ): Promise<WorkspaceDocument | null> {
+    const candidates = await this.candidateUris(importPath, fromUri, flavor);
 
     // Open models win over host loading.
     for (const candidate of candidates) {
@@ -65,28 +159,95 @@ export class WorkspaceIndex implements WorkspaceAccess {
       if (doc) return doc;
     }
 
-    if (!this.options.loadFile) return null;
+    if (this.options.loadFile) {
+      for (const candidate of candidates) {
+        if (isPythonStdlibUri(candidate)) continue;
+        const doc = await this.loadViaHost(candidate, importPath, fromUri);
+        if (doc) return doc;
+      }
+    }
+
     for (const candidate of candidates) {
-      const doc = await this.loadViaHost(candidate, importPath, fromUri);
+      const doc = await this.loadStdlibStub(candidate);
       if (doc) return doc;
     }
     return null;
   }
 
-  private async candidateUris(importPath: string, fromUri: string): Promise<string[]> {
+  private async candidateUris(
+    importPath: string,
+    fromUri: string,
+    flavor: ModuleFlavor
+  ): Promise<string[]> {
+    if (isPythonStdlibUri(fromUri)) {
+      // Bundled stubs only ever import each other.
+      return resolvePythonImport(importPath, fromUri, [PYTHON_STDLIB_ROOT], 'stub');
+    }
     if (this.options.resolveModuleUri) {
       const resolved = await this.options.resolveModuleUri(importPath, fromUri);
-      if (resolved) return Array.isArray(resolved) ? resolved : [resolved];
+      if (resolved) {
+        return this.withStdlibCandidates(importPath, fromUri, Array.isArray(resolved) ? resolved : [resolved]);
+      }
     }
 
     const roots = this.pythonRoots(fromUri);
-    return resolvePythonImport(importPath, fromUri, roots);
+    const candidates = resolvePythonImport(importPath, fromUri, roots, flavor);
+    if (this.searchPaths.length > 0) {
+      // A namespace package's portions live under several search paths; a
+      // relative import may name a module in a portion other than its own.
+      // Regular packages have exactly one portion, so theirs are left alone.
+      const absolute = absolutePythonImport(importPath, fromUri, this.searchPaths);
+      if (absolute && (await this.inNamespacePackage(importPath, fromUri))) {
+        for (const candidate of resolvePythonImport(absolute, fromUri, roots, flavor)) {
+          if (!candidates.includes(candidate)) candidates.push(candidate);
+        }
+      }
+    }
+    return this.withStdlibCandidates(importPath, fromUri, candidates);
+  }
+
+  /**
+   * Whether the package a relative import resolves in is a PEP 420 namespace
+   * package portion: neither an open model nor the host supplies an
+   * `__init__.py` or `__init__.pyi` for it. Answers are cached per directory
+   * until a model is created or disposed.
+   */
+  private async inNamespacePackage(importPath: string, fromUri: string): Promise<boolean> {
+    let dir = uriDirname(fromUri);
+    for (let level = importPath.match(/^\.*/)![0].length; level > 1; level--) {
+      dir = uriDirname(dir);
+    }
+    const cached = this.namespacePackages.get(dir);
+    if (cached !== undefined) return cached;
+    let namespace = true;
+    for (const init of ['__init__.py', '__init__.pyi'].map(name => uriJoin(dir, name))) {
+      if (this.getDocument(init) || (this.options.loadFile && (await this.loadViaHost(init, importPath, fromUri)))) {
+        namespace = false;
+        break;
+      }
+    }
+    this.namespacePackages.set(dir, namespace);
+    return namespace;
+  }
+
+  /** `candidates` followed by the bundled stub URIs for `importPath`, when enabled. */
+  private withStdlibCandidates(importPath: string, fromUri: string, candidates: string[]): string[] {
+    if (!this.options.pythonStdlibStubs) return candidates;
+    const stubs = resolvePythonImport(importPath, fromUri, [PYTHON_STDLIB_ROOT], 'stub')
+      .filter(candidate => isPythonStdlibUri(candidate) && !candidates.includes(candidate));
+    return [...candidates, ...stubs];
   }
 
-  /** Heuristic roots for absolute imports: common dir of open python models, then fromUri's dir. */
+  /**
+   * Roots for absolute imports: the configured search paths, or else the
+   * common dir of open python models, then fromUri's dir.
+   */
   private pythonRoots(fromUri: string): string[] {
+    if (this.searchPaths.length > 0) return this.searchPaths;
+
     const pythonUris = [...this.models.values()]
       .filter(m => !m.isDisposed() && m.getLanguageId() === 'python')
+      .filter(m => !isPythonStdlibUri(m.uri.toString()))
       .map(m => m.uri.toString());
 
     const roots: string[] = [];
@@ -97,6 +258,19 @@ export class WorkspaceIndex implements WorkspaceAccess {
     return roots;
   }
 
+  /** Create (once) the model for a bundled stub; null for anything not in the bundle. */
+  private async loadStdlibStub(uri: string): Promise<WorkspaceDocument | null> {
+    if (!this.options.pythonStdlibStubs) return null;
+    const source = await pythonStdlibSource(uri);
+    if (source === null) return null;
+    // A concurrent request may have created it while the bundle loaded.
+    const existing = this.getDocument(uri);
+    if (existing) return existing;
+    const model = this.monaco.editor.createModel(source, 'python', this.monaco.Uri.parse(uri));
+    this.trackModel(model);
+    return this.getDocument(model.uri.toString());
+  }
+
   private loadViaHost(
     uri: string,
     importPath: string,
@@ -115,6 +289,22 @@ export class WorkspaceIndex implements WorkspaceAccess {
         const existing = this.getDocument(resultUri);
         if (existing) return existing;
 
+        const notebookCells =
+          this.options.notebooks && isNotebookUri(resultUri) ? parseNotebookJson(result.content) : null;
+        if (notebookCells) {
+          const cellUri = this.options.notebooks?.cellUri ?? notebookCellUri;
+          for (const cell of notebookCells) {
+            const model = this.monaco.editor.createModel(
+              cell.source,
+              result.languageId ?? this.options.defaultLanguageId,
+              this.monaco.Uri.parse(cellUri(resultUri, cell.index))
+            );
+            this.trackModel(model);
+            if (cell.executionCount !== null) this.executionCounts.set(model.uri.toString(), cell.executionCount);
+          }
+          return this.getDocument(resultUri);
+        }
+
         const model = this.monaco.editor.createModel(
           result.content,
           result.languageId ?? this.options.defaultLanguageId,
@@ -141,5 +331,7 @@ export class WorkspaceIndex implements WorkspaceAccess {
     this.disposables.length = 0;
     this.models.clear();
     this.pendingLoads.clear();
+    this.executionCounts.clear();
+    this.namespacePackages.clear();
   }
 }
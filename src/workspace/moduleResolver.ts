@@ -1,3 +1,5 @@
+import type { ModuleFlavor } from '../types';
+
 /**
  * Pure import-specifier → candidate-URI resolution.
  *
@@ -14,6 +16,15 @@ export function uriDirname(uri: string): string {
   return hashless.substring(0, lastSlash);
 }
 
+/**
+ * A URI without trailing slashes, in the form uriDirname produces: "file:///a/"
+ * → "file:///a", and a bare root "file:///" → "file://" (its scheme intact).
+ */
+export function uriWithoutTrailingSlash(uri: string): string {
+  const match = uri.match(/^([a-zA-Z][\w+.-]*:\/\/)?(.*?)\/*$/);
+  return `${match?.[1] ?? ''}${match?.[2] ?? uri}`;
+}
+
 /** Join path segments onto a base URI, normalizing "." and ".." segments. */
 export function uriJoin(base: string, ...segments: string[]): string {
   // Separate scheme/authority from the path so ".." never escapes into them.
@@ -41,12 +52,15 @@ export function uriJoin(base: string, ...segments: string[]): string {
  *   denote relative imports: ".utils", "..pkg.mod", ".".
  * @param fromUri URI of the file containing the import.
  * @param roots Base URIs to resolve absolute (non-relative) imports against.
- * @returns Candidate URIs in priority order (module file before package __init__).
+ * @param flavor Whether `.py` or `.pyi` candidates come first under each base.
+ * @returns Candidate URIs in priority order (module file before package
+ *   __init__, preferred flavor before the other).
  */
 export function resolvePythonImport(
   importPath: string,
   fromUri: string,
-  roots: string[] = []
+  roots: string[] = [],
+  flavor: ModuleFlavor = 'implementation'
 ): string[] {
   const dotMatch = importPath.match(/^(\.+)(.*)$/);
 
@@ -59,25 +73,57 @@ export function resolvePythonImport(
     for (let i = 1; i < level; i++) {
       base = uriDirname(base);
     }
-    return candidatesForModule(base, remainder);
+    return candidatesForModule(base, remainder, flavor);
   }
 
   // Absolute import: try each root in order.
   const candidates: string[] = [];
   for (const root of roots) {
-    candidates.push(...candidatesForModule(root, importPath));
+    candidates.push(...candidatesForModule(root, importPath, flavor));
   }
   return candidates;
 }
 
+/**
+ * Rewrite a relative Python import as an absolute dotted path, taking the
+ * innermost root that contains `fromUri` as the top of the package tree:
+ * ".utils" from "file:///src/pkg/mod.py" under root "file:///src" → "pkg.utils".
+ * Lets a relative import reach the other portions of a namespace package.
+ *
+ * @returns null for absolute imports, files outside every root, and dots that
+ *   climb above the root.
+ */
+export function absolutePythonImport(importPath: string, fromUri: string, roots: string[]): string | null {
+  const dotMatch = importPath.match(/^(\.+)(.*)$/);
+  if (!dotMatch) return null;
+
+  const dir = uriDirname(fromUri);
+  const root = roots
+    .filter(candidate => dir === candidate || dir.startsWith(`${candidate}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (root === undefined) return null;
+
+  const packageParts = dir.substring(root.length).split('/').filter(part => part.length > 0);
+  const up = dotMatch[1].length - 1;
+  if (up > packageParts.length) return null;
+
+  const parts = packageParts.slice(0, packageParts.length - up);
+  if (dotMatch[2]) parts.push(...dotMatch[2].split('.'));
+  return parts.length > 0 ? parts.join('.') : null;
+}
+
 /** Candidates for a dotted module path under a base URI. */
-function candidatesForModule(base: string, dottedPath: string): string[] {
+function candidatesForModule(base: string, dottedPath: string, flavor: ModuleFlavor): string[] {
+  const extensions = flavor === 'stub' ? ['.pyi', '.py'] : ['.py', '.pyi'];
   if (!dottedPath) {
     // "from . import x" — the module is the package itself.
-    return [uriJoin(base, '__init__.py')];
+    return extensions.map(ext => uriJoin(base, `__init__${ext}`));
   }
   const relPath = dottedPath.split('.').join('/');
-  return [uriJoin(base, `${relPath}.py`), uriJoin(base, relPath, '__init__.py')];
+  return extensions.flatMap(ext => [
+    uriJoin(base, `${relPath}${ext}`),
+    uriJoin(base, relPath, `__init__${ext}`)
+  ]);
 }
 
 const TS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
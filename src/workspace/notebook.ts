@@ -0,0 +1,99 @@
+import type { NotebookCell, WorkspaceDocument } from '../types';
+
+/**
+ * Jupyter notebooks as composite documents.
+ *
+ * Each code cell is its own Monaco model; the notebook itself is a virtual
+ * document whose source is its cells joined in execution order, so an analyzer
+ * can treat the whole notebook as one module. Cells are recognised by URI — by default
+ * `<notebook>#cell-<index>`, e.g. `file:///work/analysis.ipynb#cell-3`.
+ */
+
+/** Default `notebooks.cellOf`: `<notebook>#cell-<index>`. */
+export function parseNotebookCellUri(uri: string): { notebookUri: string; index: number } | null {
+  const match = uri.match(/^([^#]+)#cell-(\d+)$/);
+  return match ? { notebookUri: match[1], index: Number(match[2]) } : null;
+}
+
+/** Default `notebooks.cellUri`, the inverse of {@link parseNotebookCellUri}. */
+export function notebookCellUri(notebookUri: string, index: number): string {
+  return `${notebookUri}#cell-${index}`;
+}
+
+/** Whether `uri` names a notebook file (`.ipynb`, query and fragment ignored). */
+export function isNotebookUri(uri: string): boolean {
+  return /\.ipynb$/i.test(uri.split(/[?#]/)[0]);
+}
+
+/**
+ * Code cells of an nbformat 4 notebook, with their index among all cells
+ * (markdown and raw cells keep their slot so indexes match the host's UI) and
+ * their saved `execution_count` (null for cells that never ran).
+ * Returns null when `content` is not notebook JSON.
+ */
+export function parseNotebookJson(
+  content: string
+): Array<{ index: number; source: string; executionCount: number | null }> | null {
+  let notebook: unknown;
+  try {
+    notebook = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  const cells = (notebook as { cells?: unknown } | null)?.cells;
+  if (!Array.isArray(cells)) return null;
+
+  const codeCells: Array<{ index: number; source: string; executionCount: number | null }> = [];
+  cells.forEach((cell: { cell_type?: unknown; source?: unknown; execution_count?: unknown }, index) => {
+    if (cell?.cell_type !== 'code') return;
+    const source = Array.isArray(cell.source) ? cell.source.join('') : cell.source;
+    const executionCount = typeof cell.execution_count === 'number' ? cell.execution_count : null;
+    codeCells.push({ index, source: typeof source === 'string' ? source : '', executionCount });
+  });
+  return codeCells;
+}
+
+/**
+ * Cells in the order the kernel ran them: cells with an execution count by
+ * that count, then cells that never ran in cell order. A cell run several
+ * times only keeps its latest count, so it sits where it last ran.
+ */
+export function inExecutionOrder<T extends { index: number; executionCount: number | null }>(cells: T[]): T[] {
+  return [...cells].sort((a, b) => {
+    if (a.executionCount === b.executionCount) return a.index - b.index;
+    if (a.executionCount === null) return 1;
+    if (b.executionCount === null) return -1;
+    return a.executionCount - b.executionCount;
+  });
+}
+
+/**
+ * The notebook document for ordered cell sources. IPython magics and shell
+ * escapes (`%time`, `!pip …`) turn into comments of the same length, so the
+ * joined source parses as Python while every column stays put.
+ */
+export function composeNotebook(
+  notebookUri: string,
+  cells: Array<{ uri: string; getValue(): string }>
+): WorkspaceDocument {
+  const layout = (): { source: string; cells: NotebookCell[] } => {
+    const parts: string[] = [];
+    const placed: NotebookCell[] = [];
+    let lineOffset = 0;
+    for (const cell of cells) {
+      const lines = cell.getValue().split('\n').map(line => line.replace(/^(\s*)[%!]/, '$1#'));
+      placed.push({ uri: cell.uri, lineOffset, lineCount: lines.length });
+      parts.push(lines.join('\n'));
+      lineOffset += lines.length;
+    }
+    return { source: parts.join('\n'), cells: placed };
+  };
+
+  return {
+    uri: notebookUri,
+    getValue: () => layout().source,
+    get cells() {
+      return layout().cells;
+    }
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Bundled, offline stubs for Python builtins and a slice of the standard
+ * library, served as virtual `.pyi` documents under a reserved URI scheme
+ * (`python-stdlib://bundled/os/path.pyi`).
+ *
+ * The stubs are deliberately small: enough declarations for navigation to
+ * land on `len`, `dict`, `Exception` or `os.path.join`, not a typeshed copy.
+ * They are never handed to the host's `loadFile` hook — WorkspaceIndex turns
+ * them into Monaco models itself.
+ */
+
+/** URI scheme reserved for bundled stdlib stubs. */
+export const PYTHON_STDLIB_SCHEME = 'python-stdlib';
+
+/** Root the bundled stubs live under; absolute imports resolve against it. */
+export const PYTHON_STDLIB_ROOT = `${PYTHON_STDLIB_SCHEME}://bundled`;
+
+/**
+ * Whether `uri` names a bundled stub. Hosts use this to open such documents
+ * read-only — the models are regenerated from the bundle, so edits are lost.
+ */
+export function isPythonStdlibUri(uri: string): boolean {
+  return uri.startsWith(`${PYTHON_STDLIB_SCHEME}:`);
+}
+
+/**
+ * Source of the bundled stub at `uri`, or null when the bundle has no such
+ * file. The stub sources are imported on first use, so hosts that never
+ * enable stdlib stubs don't load them.
+ */
+export async function pythonStdlibSource(uri: string): Promise<string | null> {
+  if (!uri.startsWith(`${PYTHON_STDLIB_ROOT}/`)) return null;
+  const path = uri.substring(PYTHON_STDLIB_ROOT.length + 1);
+  const { PYTHON_STDLIB_STUBS } = await import('./pythonStdlibStubs');
+  return Object.prototype.hasOwnProperty.call(PYTHON_STDLIB_STUBS, path) ? PYTHON_STDLIB_STUBS[path] : null;
+}
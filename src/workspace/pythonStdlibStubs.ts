@@ -0,0 +1,1060 @@
+/**
+ * Sources of the bundled stdlib stubs, keyed by path below the bundle root
+ * (`os/path.pyi`). Kept in a module of their own so the bundle is only loaded
+ * once `pythonStdlibSource` first needs it.
+ */
+export const PYTHON_STDLIB_STUBS: Record<string, string> = {
+  'abc.pyi': `"""Bundled subset of the abc module."""
+from typing import Any, Callable
+
+class ABCMeta(type):
+    def register(cls, subclass: type) -> type: ...
+
+class ABC(metaclass=ABCMeta): ...
+
+def abstractmethod(funcobj: Callable[..., Any]) -> Callable[..., Any]: ...
+def get_cache_token() -> object: ...
+`,
+  'builtins.pyi': `"""Bundled subset of the builtins module."""
+from typing import Any, Callable, Iterable, Iterator, Mapping, TypeVar
+
+_T = TypeVar("_T")
+_KT = TypeVar("_KT")
+_VT = TypeVar("_VT")
+
+class object:
+    __doc__: str | None
+    __dict__: dict[str, Any]
+    __module__: str
+    def __init__(self) -> None: ...
+    def __repr__(self) -> str: ...
+    def __str__(self) -> str: ...
+    def __eq__(self, other: object) -> bool: ...
+    def __hash__(self) -> int: ...
+
+class type:
+    __name__: str
+    __qualname__: str
+    __module__: str
+    __bases__: tuple[type, ...]
+    __mro__: tuple[type, ...]
+    def __init__(self, name: str, bases: tuple[type, ...] = ..., namespace: dict[str, Any] = ...) -> None: ...
+    def mro(self) -> list[type]: ...
+    def __subclasses__(self) -> list[type]: ...
+
+class super:
+    def __init__(self, t: Any = ..., obj: Any = ...) -> None: ...
+
+class int:
+    def __init__(self, x: Any = ..., base: int = ...) -> None: ...
+    def bit_length(self) -> int: ...
+    def to_bytes(self, length: int = ..., byteorder: str = ..., *, signed: bool = ...) -> bytes: ...
+    @classmethod
+    def from_bytes(cls, bytes: bytes, byteorder: str = ..., *, signed: bool = ...) -> int: ...
+
+class float:
+    def __init__(self, x: Any = ...) -> None: ...
+    def is_integer(self) -> bool: ...
+    def as_integer_ratio(self) -> tuple[int, int]: ...
+
+class complex:
+    real: float
+    imag: float
+    def __init__(self, real: Any = ..., imag: Any = ...) -> None: ...
+    def conjugate(self) -> complex: ...
+
+class bool(int):
+    def __init__(self, o: object = ...) -> None: ...
+
+class str:
+    def __init__(self, object: object = ...) -> None: ...
+    def capitalize(self) -> str: ...
+    def casefold(self) -> str: ...
+    def center(self, width: int, fillchar: str = " ") -> str: ...
+    def count(self, sub: str, start: int | None = ..., end: int | None = ...) -> int: ...
+    def encode(self, encoding: str = "utf-8", errors: str = "strict") -> bytes: ...
+    def endswith(self, suffix: str | tuple[str, ...], start: int | None = ..., end: int | None = ...) -> bool: ...
+    def find(self, sub: str, start: int | None = ..., end: int | None = ...) -> int: ...
+    def format(self, *args: object, **kwargs: object) -> str: ...
+    def index(self, sub: str, start: int | None = ..., end: int | None = ...) -> int: ...
+    def isdigit(self) -> bool: ...
+    def isalpha(self) -> bool: ...
+    def isspace(self) -> bool: ...
+    def join(self, iterable: Iterable[str]) -> str: ...
+    def lower(self) -> str: ...
+    def lstrip(self, chars: str | None = None) -> str: ...
+    def partition(self, sep: str) -> tuple[str, str, str]: ...
+    def removeprefix(self, prefix: str) -> str: ...
+    def removesuffix(self, suffix: str) -> str: ...
+    def replace(self, old: str, new: str, count: int = -1) -> str: ...
+    def rfind(self, sub: str, start: int | None = ..., end: int | None = ...) -> int: ...
+    def rsplit(self, sep: str | None = None, maxsplit: int = -1) -> list[str]: ...
+    def rstrip(self, chars: str | None = None) -> str: ...
+    def split(self, sep: str | None = None, maxsplit: int = -1) -> list[str]: ...
+    def splitlines(self, keepends: bool = False) -> list[str]: ...
+    def startswith(self, prefix: str | tuple[str, ...], start: int | None = ..., end: int | None = ...) -> bool: ...
+    def strip(self, chars: str | None = None) -> str: ...
+    def title(self) -> str: ...
+    def upper(self) -> str: ...
+    def zfill(self, width: int) -> str: ...
+
+class bytes:
+    def __init__(self, source: Any = ..., encoding: str = ..., errors: str = ...) -> None: ...
+    def decode(self, encoding: str = "utf-8", errors: str = "strict") -> str: ...
+    def hex(self) -> str: ...
+    @classmethod
+    def fromhex(cls, string: str) -> bytes: ...
+
+class bytearray:
+    def __init__(self, source: Any = ..., encoding: str = ..., errors: str = ...) -> None: ...
+    def append(self, item: int) -> None: ...
+    def decode(self, encoding: str = "utf-8", errors: str = "strict") -> str: ...
+
+class memoryview:
+    def __init__(self, obj: Any) -> None: ...
+    def tobytes(self) -> bytes: ...
+
+class slice:
+    start: Any
+    stop: Any
+    step: Any
+    def __init__(self, start: Any, stop: Any = ..., step: Any = ...) -> None: ...
+
+class tuple:
+    def __init__(self, iterable: Iterable[Any] = ...) -> None: ...
+    def count(self, value: Any) -> int: ...
+    def index(self, value: Any, start: int = 0, stop: int = ...) -> int: ...
+
+class list:
+    def __init__(self, iterable: Iterable[_T] = ...) -> None: ...
+    def append(self, object: _T) -> None: ...
+    def clear(self) -> None: ...
+    def copy(self) -> list[_T]: ...
+    def count(self, value: _T) -> int: ...
+    def extend(self, iterable: Iterable[_T]) -> None: ...
+    def index(self, value: _T, start: int = 0, stop: int = ...) -> int: ...
+    def insert(self, index: int, object: _T) -> None: ...
+    def pop(self, index: int = -1) -> _T: ...
+    def remove(self, value: _T) -> None: ...
+    def reverse(self) -> None: ...
+    def sort(self, *, key: Callable[[_T], Any] | None = None, reverse: bool = False) -> None: ...
+
+class dict:
+    def __init__(self, map: Mapping[_KT, _VT] = ..., **kwargs: _VT) -> None: ...
+    def clear(self) -> None: ...
+    def copy(self) -> dict[_KT, _VT]: ...
+    @classmethod
+    def fromkeys(cls, iterable: Iterable[_KT], value: Any = None) -> dict[_KT, Any]: ...
+    def get(self, key: _KT, default: Any = None) -> Any: ...
+    def items(self) -> Any: ...
+    def keys(self) -> Any: ...
+    def pop(self, key: _KT, default: Any = ...) -> Any: ...
+    def popitem(self) -> tuple[_KT, _VT]: ...
+    def setdefault(self, key: _KT, default: _VT = ...) -> _VT: ...
+    def update(self, other: Mapping[_KT, _VT] = ..., **kwargs: _VT) -> None: ...
+    def values(self) -> Any: ...
+
+class set:
+    def __init__(self, iterable: Iterable[_T] = ...) -> None: ...
+    def add(self, element: _T) -> None: ...
+    def clear(self) -> None: ...
+    def difference(self, *s: Iterable[Any]) -> set[_T]: ...
+    def discard(self, element: _T) -> None: ...
+    def intersection(self, *s: Iterable[Any]) -> set[_T]: ...
+    def issubset(self, s: Iterable[Any]) -> bool: ...
+    def issuperset(self, s: Iterable[Any]) -> bool: ...
+    def pop(self) -> _T: ...
+    def remove(self, element: _T) -> None: ...
+    def union(self, *s: Iterable[_T]) -> set[_T]: ...
+    def update(self, *s: Iterable[_T]) -> None: ...
+
+class frozenset:
+    def __init__(self, iterable: Iterable[_T] = ...) -> None: ...
+    def union(self, *s: Iterable[_T]) -> frozenset[_T]: ...
+
+class range:
+    start: int
+    stop: int
+    step: int
+    def __init__(self, start: int, stop: int = ..., step: int = ...) -> None: ...
+
+class enumerate:
+    def __init__(self, iterable: Iterable[_T], start: int = 0) -> None: ...
+
+class zip:
+    def __init__(self, *iterables: Iterable[Any], strict: bool = False) -> None: ...
+
+class map:
+    def __init__(self, func: Callable[..., Any], *iterables: Iterable[Any]) -> None: ...
+
+class filter:
+    def __init__(self, function: Callable[[Any], Any] | None, iterable: Iterable[Any]) -> None: ...
+
+class reversed:
+    def __init__(self, sequence: Any) -> None: ...
+
+class property:
+    fget: Callable[[Any], Any] | None
+    fset: Callable[[Any, Any], None] | None
+    fdel: Callable[[Any], None] | None
+    def __init__(self, fget: Callable[[Any], Any] | None = ..., fset: Callable[[Any, Any], None] | None = ..., fdel: Callable[[Any], None] | None = ..., doc: str | None = ...) -> None: ...
+    def getter(self, fget: Callable[[Any], Any]) -> property: ...
+    def setter(self, fset: Callable[[Any, Any], None]) -> property: ...
+    def deleter(self, fdel: Callable[[Any], None]) -> property: ...
+
+class staticmethod:
+    def __init__(self, f: Callable[..., Any]) -> None: ...
+
+class classmethod:
+    def __init__(self, f: Callable[..., Any]) -> None: ...
+
+def abs(x: Any) -> Any: ...
+def all(iterable: Iterable[object]) -> bool: ...
+def any(iterable: Iterable[object]) -> bool: ...
+def ascii(obj: object) -> str: ...
+def bin(number: int) -> str: ...
+def breakpoint(*args: Any, **kws: Any) -> None: ...
+def callable(obj: object) -> bool: ...
+def chr(i: int) -> str: ...
+def delattr(obj: object, name: str) -> None: ...
+def dir(o: object = ...) -> list[str]: ...
+def divmod(x: Any, y: Any) -> tuple[Any, Any]: ...
+def eval(source: str, globals: dict[str, Any] | None = None, locals: Mapping[str, object] | None = None) -> Any: ...
+def exec(source: str, globals: dict[str, Any] | None = None, locals: Mapping[str, object] | None = None) -> None: ...
+def format(value: object, format_spec: str = "") -> str: ...
+def getattr(o: object, name: str, default: Any = ...) -> Any: ...
+def globals() -> dict[str, Any]: ...
+def hasattr(obj: object, name: str) -> bool: ...
+def hash(obj: object) -> int: ...
+def help(request: object = ...) -> None: ...
+def hex(number: int) -> str: ...
+def id(obj: object) -> int: ...
+def input(prompt: object = "") -> str: ...
+def isinstance(obj: object, class_or_tuple: Any) -> bool: ...
+def issubclass(cls: type, class_or_tuple: Any) -> bool: ...
+def iter(object: Any, sentinel: Any = ...) -> Iterator[Any]: ...
+def len(obj: Any) -> int: ...
+def locals() -> dict[str, Any]: ...
+def max(*args: Any, key: Callable[[Any], Any] | None = None, default: Any = ...) -> Any: ...
+def min(*args: Any, key: Callable[[Any], Any] | None = None, default: Any = ...) -> Any: ...
+def next(i: Iterator[_T], default: Any = ...) -> _T: ...
+def oct(number: int) -> str: ...
+def open(file: Any, mode: str = "r", buffering: int = -1, encoding: str | None = None, errors: str | None = None, newline: str | None = None, closefd: bool = True, opener: Any = None) -> Any: ...
+def ord(c: str) -> int: ...
+def pow(base: Any, exp: Any, mod: Any = None) -> Any: ...
+def print(*values: object, sep: str | None = " ", end: str | None = "\\n", file: Any = None, flush: bool = False) -> None: ...
+def repr(obj: object) -> str: ...
+def round(number: Any, ndigits: int | None = None) -> Any: ...
+def setattr(obj: object, name: str, value: Any) -> None: ...
+def sorted(iterable: Iterable[_T], *, key: Callable[[_T], Any] | None = None, reverse: bool = False) -> list[_T]: ...
+def sum(iterable: Iterable[Any], start: Any = 0) -> Any: ...
+def vars(object: Any = ...) -> dict[str, Any]: ...
+def __import__(name: str, globals: Mapping[str, object] | None = None, locals: Mapping[str, object] | None = None, fromlist: Any = (), level: int = 0) -> Any: ...
+
+class BaseException:
+    args: tuple[Any, ...]
+    __cause__: BaseException | None
+    __context__: BaseException | None
+    __traceback__: Any
+    def __init__(self, *args: object) -> None: ...
+    def with_traceback(self, tb: Any) -> BaseException: ...
+    def add_note(self, note: str) -> None: ...
+
+class BaseExceptionGroup(BaseException):
+    message: str
+    exceptions: tuple[BaseException, ...]
+    def __init__(self, message: str, exceptions: Any) -> None: ...
+
+class GeneratorExit(BaseException): ...
+class KeyboardInterrupt(BaseException): ...
+class SystemExit(BaseException):
+    code: Any
+
+class Exception(BaseException): ...
+class ExceptionGroup(BaseExceptionGroup, Exception): ...
+class StopIteration(Exception):
+    value: Any
+class StopAsyncIteration(Exception): ...
+class ArithmeticError(Exception): ...
+class FloatingPointError(ArithmeticError): ...
+class OverflowError(ArithmeticError): ...
+class ZeroDivisionError(ArithmeticError): ...
+class AssertionError(Exception): ...
+class AttributeError(Exception):
+    name: str
+    obj: object
+class BufferError(Exception): ...
+class EOFError(Exception): ...
+class ImportError(Exception):
+    name: str | None
+    path: str | None
+class ModuleNotFoundError(ImportError): ...
+class LookupError(Exception): ...
+class IndexError(LookupError): ...
+class KeyError(LookupError): ...
+class MemoryError(Exception): ...
+class NameError(Exception):
+    name: str
+class UnboundLocalError(NameError): ...
+class OSError(Exception):
+    errno: int | None
+    strerror: str | None
+    filename: Any
+EnvironmentError = OSError
+IOError = OSError
+class BlockingIOError(OSError): ...
+class ChildProcessError(OSError): ...
+class ConnectionError(OSError): ...
+class BrokenPipeError(ConnectionError): ...
+class ConnectionAbortedError(ConnectionError): ...
+class ConnectionRefusedError(ConnectionError): ...
+class ConnectionResetError(ConnectionError): ...
+class FileExistsError(OSError): ...
+class FileNotFoundError(OSError): ...
+class InterruptedError(OSError): ...
+class IsADirectoryError(OSError): ...
+class NotADirectoryError(OSError): ...
+class PermissionError(OSError): ...
+class ProcessLookupError(OSError): ...
+class TimeoutError(OSError): ...
+class ReferenceError(Exception): ...
+class RuntimeError(Exception): ...
+class NotImplementedError(RuntimeError): ...
+class RecursionError(RuntimeError): ...
+class SyntaxError(Exception):
+    msg: str
+    filename: str | None
+    lineno: int | None
+    offset: int | None
+    text: str | None
+class IndentationError(SyntaxError): ...
+class TabError(IndentationError): ...
+class SystemError(Exception): ...
+class TypeError(Exception): ...
+class ValueError(Exception): ...
+class UnicodeError(ValueError): ...
+class UnicodeDecodeError(UnicodeError): ...
+class UnicodeEncodeError(UnicodeError): ...
+class Warning(Exception): ...
+class UserWarning(Warning): ...
+class DeprecationWarning(Warning): ...
+class PendingDeprecationWarning(Warning): ...
+class RuntimeWarning(Warning): ...
+class SyntaxWarning(Warning): ...
+class FutureWarning(Warning): ...
+class ImportWarning(Warning): ...
+class UnicodeWarning(Warning): ...
+class BytesWarning(Warning): ...
+class ResourceWarning(Warning): ...
+
+NotImplemented: Any
+Ellipsis: Any
+__debug__: bool
+`,
+  'collections/__init__.pyi': `"""Bundled subset of the collections module."""
+from typing import Any, Callable, Iterable, Mapping
+
+class deque:
+    maxlen: int | None
+    def __init__(self, iterable: Iterable[Any] = ..., maxlen: int | None = None) -> None: ...
+    def append(self, x: Any) -> None: ...
+    def appendleft(self, x: Any) -> None: ...
+    def clear(self) -> None: ...
+    def extend(self, iterable: Iterable[Any]) -> None: ...
+    def extendleft(self, iterable: Iterable[Any]) -> None: ...
+    def pop(self) -> Any: ...
+    def popleft(self) -> Any: ...
+    def rotate(self, n: int = 1) -> None: ...
+
+class defaultdict(dict):
+    default_factory: Callable[[], Any] | None
+    def __init__(self, default_factory: Callable[[], Any] | None = None, *args: Any, **kwargs: Any) -> None: ...
+
+class OrderedDict(dict):
+    def move_to_end(self, key: Any, last: bool = True) -> None: ...
+    def popitem(self, last: bool = True) -> tuple[Any, Any]: ...
+
+class Counter(dict):
+    def __init__(self, iterable: Iterable[Any] | Mapping[Any, int] | None = None, **kwargs: int) -> None: ...
+    def most_common(self, n: int | None = None) -> list[tuple[Any, int]]: ...
+    def elements(self) -> Iterable[Any]: ...
+    def subtract(self, iterable: Any = None, **kwargs: int) -> None: ...
+    def total(self) -> int: ...
+
+class ChainMap(dict):
+    maps: list[Mapping[Any, Any]]
+    def __init__(self, *maps: Mapping[Any, Any]) -> None: ...
+    def new_child(self, m: Mapping[Any, Any] | None = None) -> ChainMap: ...
+
+def namedtuple(typename: str, field_names: str | Iterable[str], *, rename: bool = False, defaults: Iterable[Any] | None = None, module: str | None = None) -> type: ...
+`,
+  'dataclasses.pyi': `"""Bundled subset of the dataclasses module."""
+from typing import Any, Callable
+
+MISSING: Any
+
+class Field:
+    name: str
+    type: Any
+    default: Any
+    default_factory: Any
+    init: bool
+    repr: bool
+    kw_only: bool
+    metadata: Any
+
+class FrozenInstanceError(AttributeError): ...
+
+class InitVar:
+    type: Any
+    def __init__(self, type: Any) -> None: ...
+
+class KW_ONLY: ...
+
+def dataclass(cls: type | None = None, /, *, init: bool = True, repr: bool = True, eq: bool = True, order: bool = False, unsafe_hash: bool = False, frozen: bool = False, match_args: bool = True, kw_only: bool = False, slots: bool = False) -> Any: ...
+def field(*, default: Any = ..., default_factory: Callable[[], Any] = ..., init: bool = True, repr: bool = True, hash: bool | None = None, compare: bool = True, metadata: Any = None, kw_only: bool = ...) -> Any: ...
+def fields(class_or_instance: Any) -> tuple[Field, ...]: ...
+def asdict(obj: Any, *, dict_factory: Callable[[list[tuple[str, Any]]], Any] = ...) -> dict[str, Any]: ...
+def astuple(obj: Any, *, tuple_factory: Callable[[list[Any]], Any] = ...) -> tuple[Any, ...]: ...
+def replace(obj: Any, /, **changes: Any) -> Any: ...
+def is_dataclass(obj: Any) -> bool: ...
+def make_dataclass(cls_name: str, fields: Any, *, bases: tuple[type, ...] = (), namespace: dict[str, Any] | None = None) -> type: ...
+`,
+  'datetime.pyi': `"""Bundled subset of the datetime module."""
+
+MINYEAR: int
+MAXYEAR: int
+
+class tzinfo:
+    def utcoffset(self, dt: datetime | None) -> timedelta | None: ...
+    def tzname(self, dt: datetime | None) -> str | None: ...
+    def dst(self, dt: datetime | None) -> timedelta | None: ...
+
+class timezone(tzinfo):
+    utc: timezone
+    def __init__(self, offset: timedelta, name: str = ...) -> None: ...
+
+UTC: timezone
+
+class timedelta:
+    days: int
+    seconds: int
+    microseconds: int
+    def __init__(self, days: float = 0, seconds: float = 0, microseconds: float = 0, milliseconds: float = 0, minutes: float = 0, hours: float = 0, weeks: float = 0) -> None: ...
+    def total_seconds(self) -> float: ...
+
+class date:
+    year: int
+    month: int
+    day: int
+    def __init__(self, year: int, month: int, day: int) -> None: ...
+    @classmethod
+    def today(cls) -> date: ...
+    @classmethod
+    def fromisoformat(cls, date_string: str) -> date: ...
+    def isoformat(self) -> str: ...
+    def strftime(self, format: str) -> str: ...
+    def replace(self, year: int = ..., month: int = ..., day: int = ...) -> date: ...
+    def weekday(self) -> int: ...
+
+class time:
+    hour: int
+    minute: int
+    second: int
+    microsecond: int
+    tzinfo: tzinfo | None
+    def __init__(self, hour: int = 0, minute: int = 0, second: int = 0, microsecond: int = 0, tzinfo: tzinfo | None = None) -> None: ...
+    def isoformat(self, timespec: str = "auto") -> str: ...
+
+class datetime(date):
+    hour: int
+    minute: int
+    second: int
+    microsecond: int
+    tzinfo: tzinfo | None
+    def __init__(self, year: int, month: int, day: int, hour: int = 0, minute: int = 0, second: int = 0, microsecond: int = 0, tzinfo: tzinfo | None = None) -> None: ...
+    @classmethod
+    def now(cls, tz: tzinfo | None = None) -> datetime: ...
+    @classmethod
+    def fromtimestamp(cls, timestamp: float, tz: tzinfo | None = None) -> datetime: ...
+    @classmethod
+    def fromisoformat(cls, date_string: str) -> datetime: ...
+    @classmethod
+    def strptime(cls, date_string: str, format: str) -> datetime: ...
+    def astimezone(self, tz: tzinfo | None = None) -> datetime: ...
+    def date(self) -> date: ...
+    def time(self) -> time: ...
+    def timestamp(self) -> float: ...
+    def isoformat(self, sep: str = "T", timespec: str = "auto") -> str: ...
+`,
+  'enum.pyi': `"""Bundled subset of the enum module."""
+from typing import Any
+
+class EnumMeta(type):
+    def __iter__(self) -> Any: ...
+    def __len__(self) -> int: ...
+    def __members__(self) -> dict[str, Any]: ...
+
+EnumType = EnumMeta
+
+class Enum(metaclass=EnumMeta):
+    name: str
+    value: Any
+    _name_: str
+    _value_: Any
+    @classmethod
+    def _missing_(cls, value: object) -> Any: ...
+    @staticmethod
+    def _generate_next_value_(name: str, start: int, count: int, last_values: list[Any]) -> Any: ...
+
+class ReprEnum(Enum): ...
+class IntEnum(int, ReprEnum):
+    value: int
+class StrEnum(str, ReprEnum):
+    value: str
+class Flag(Enum):
+    value: int
+class IntFlag(int, ReprEnum, Flag):
+    value: int
+
+class auto:
+    value: Any
+    def __init__(self) -> None: ...
+
+def unique(enumeration: type) -> type: ...
+`,
+  'functools.pyi': `"""Bundled subset of the functools module."""
+from typing import Any, Callable
+
+WRAPPER_ASSIGNMENTS: tuple[str, ...]
+WRAPPER_UPDATES: tuple[str, ...]
+
+class partial:
+    func: Callable[..., Any]
+    args: tuple[Any, ...]
+    keywords: dict[str, Any]
+    def __init__(self, func: Callable[..., Any], *args: Any, **kwargs: Any) -> None: ...
+
+class cached_property:
+    func: Callable[[Any], Any]
+    def __init__(self, func: Callable[[Any], Any]) -> None: ...
+
+def cache(user_function: Callable[..., Any]) -> Callable[..., Any]: ...
+def lru_cache(maxsize: int | None = 128, typed: bool = False) -> Callable[..., Any]: ...
+def reduce(function: Callable[[Any, Any], Any], iterable: Any, initial: Any = ...) -> Any: ...
+def total_ordering(cls: type) -> type: ...
+def singledispatch(func: Callable[..., Any]) -> Callable[..., Any]: ...
+def update_wrapper(wrapper: Callable[..., Any], wrapped: Callable[..., Any], assigned: tuple[str, ...] = ..., updated: tuple[str, ...] = ...) -> Callable[..., Any]: ...
+def wraps(wrapped: Callable[..., Any], assigned: tuple[str, ...] = ..., updated: tuple[str, ...] = ...) -> Callable[[Callable[..., Any]], Callable[..., Any]]: ...
+def cmp_to_key(mycmp: Callable[[Any, Any], int]) -> Callable[[Any], Any]: ...
+`,
+  'itertools.pyi': `"""Bundled subset of the itertools module."""
+from typing import Any, Callable, Iterable, Iterator
+
+def accumulate(iterable: Iterable[Any], func: Callable[[Any, Any], Any] | None = None, *, initial: Any = None) -> Iterator[Any]: ...
+def batched(iterable: Iterable[Any], n: int) -> Iterator[tuple[Any, ...]]: ...
+def chain(*iterables: Iterable[Any]) -> Iterator[Any]: ...
+def combinations(iterable: Iterable[Any], r: int) -> Iterator[tuple[Any, ...]]: ...
+def count(start: int = 0, step: int = 1) -> Iterator[int]: ...
+def cycle(iterable: Iterable[Any]) -> Iterator[Any]: ...
+def dropwhile(predicate: Callable[[Any], object], iterable: Iterable[Any]) -> Iterator[Any]: ...
+def filterfalse(predicate: Callable[[Any], object] | None, iterable: Iterable[Any]) -> Iterator[Any]: ...
+def groupby(iterable: Iterable[Any], key: Callable[[Any], Any] | None = None) -> Iterator[tuple[Any, Iterator[Any]]]: ...
+def islice(iterable: Iterable[Any], *args: int | None) -> Iterator[Any]: ...
+def pairwise(iterable: Iterable[Any]) -> Iterator[tuple[Any, Any]]: ...
+def permutations(iterable: Iterable[Any], r: int | None = None) -> Iterator[tuple[Any, ...]]: ...
+def product(*iterables: Iterable[Any], repeat: int = 1) -> Iterator[tuple[Any, ...]]: ...
+def repeat(object: Any, times: int = ...) -> Iterator[Any]: ...
+def starmap(function: Callable[..., Any], iterable: Iterable[Iterable[Any]]) -> Iterator[Any]: ...
+def takewhile(predicate: Callable[[Any], object], iterable: Iterable[Any]) -> Iterator[Any]: ...
+def tee(iterable: Iterable[Any], n: int = 2) -> tuple[Iterator[Any], ...]: ...
+def zip_longest(*iterables: Iterable[Any], fillvalue: Any = None) -> Iterator[tuple[Any, ...]]: ...
+`,
+  'json/__init__.pyi': `"""Bundled subset of the json module."""
+from typing import Any, Callable, IO
+
+class JSONDecodeError(ValueError):
+    msg: str
+    doc: str
+    pos: int
+    lineno: int
+    colno: int
+
+class JSONDecoder:
+    def __init__(self, *, object_hook: Callable[[dict[str, Any]], Any] | None = None, parse_float: Callable[[str], Any] | None = None, parse_int: Callable[[str], Any] | None = None, strict: bool = True) -> None: ...
+    def decode(self, s: str) -> Any: ...
+
+class JSONEncoder:
+    def __init__(self, *, skipkeys: bool = False, ensure_ascii: bool = True, check_circular: bool = True, allow_nan: bool = True, sort_keys: bool = False, indent: int | str | None = None, separators: tuple[str, str] | None = None, default: Callable[[Any], Any] | None = None) -> None: ...
+    def default(self, o: Any) -> Any: ...
+    def encode(self, o: Any) -> str: ...
+
+def dumps(obj: Any, *, skipkeys: bool = False, ensure_ascii: bool = True, check_circular: bool = True, allow_nan: bool = True, cls: type[JSONEncoder] | None = None, indent: int | str | None = None, separators: tuple[str, str] | None = None, default: Callable[[Any], Any] | None = None, sort_keys: bool = False) -> str: ...
+def dump(obj: Any, fp: IO, *, skipkeys: bool = False, ensure_ascii: bool = True, indent: int | str | None = None, default: Callable[[Any], Any] | None = None, sort_keys: bool = False) -> None: ...
+def loads(s: str | bytes, *, cls: type[JSONDecoder] | None = None, object_hook: Callable[[dict[str, Any]], Any] | None = None) -> Any: ...
+def load(fp: IO, *, cls: type[JSONDecoder] | None = None, object_hook: Callable[[dict[str, Any]], Any] | None = None) -> Any: ...
+`,
+  'logging.pyi': `"""Bundled subset of the logging module."""
+from typing import Any
+
+CRITICAL: int
+FATAL: int
+ERROR: int
+WARNING: int
+WARN: int
+INFO: int
+DEBUG: int
+NOTSET: int
+
+class LogRecord:
+    name: str
+    msg: Any
+    args: Any
+    levelname: str
+    levelno: int
+    pathname: str
+    lineno: int
+    created: float
+    def getMessage(self) -> str: ...
+
+class Formatter:
+    def __init__(self, fmt: str | None = None, datefmt: str | None = None, style: str = "%") -> None: ...
+    def format(self, record: LogRecord) -> str: ...
+
+class Filter:
+    def __init__(self, name: str = "") -> None: ...
+    def filter(self, record: LogRecord) -> bool: ...
+
+class Handler:
+    level: int
+    formatter: Formatter | None
+    def __init__(self, level: int = 0) -> None: ...
+    def setLevel(self, level: int | str) -> None: ...
+    def setFormatter(self, fmt: Formatter | None) -> None: ...
+    def addFilter(self, filter: Filter) -> None: ...
+    def emit(self, record: LogRecord) -> None: ...
+    def flush(self) -> None: ...
+    def close(self) -> None: ...
+
+class StreamHandler(Handler):
+    def __init__(self, stream: Any = None) -> None: ...
+
+class FileHandler(StreamHandler):
+    def __init__(self, filename: str, mode: str = "a", encoding: str | None = None, delay: bool = False) -> None: ...
+
+class NullHandler(Handler): ...
+
+class Logger:
+    name: str
+    level: int
+    parent: Logger | None
+    propagate: bool
+    handlers: list[Handler]
+    def setLevel(self, level: int | str) -> None: ...
+    def isEnabledFor(self, level: int) -> bool: ...
+    def getChild(self, suffix: str) -> Logger: ...
+    def debug(self, msg: object, *args: object, **kwargs: Any) -> None: ...
+    def info(self, msg: object, *args: object, **kwargs: Any) -> None: ...
+    def warning(self, msg: object, *args: object, **kwargs: Any) -> None: ...
+    def error(self, msg: object, *args: object, **kwargs: Any) -> None: ...
+    def exception(self, msg: object, *args: object, **kwargs: Any) -> None: ...
+    def critical(self, msg: object, *args: object, **kwargs: Any) -> None: ...
+    def log(self, level: int, msg: object, *args: object, **kwargs: Any) -> None: ...
+    def addHandler(self, hdlr: Handler) -> None: ...
+    def removeHandler(self, hdlr: Handler) -> None: ...
+
+def getLogger(name: str | None = None) -> Logger: ...
+def basicConfig(**kwargs: Any) -> None: ...
+def debug(msg: object, *args: object, **kwargs: Any) -> None: ...
+def info(msg: object, *args: object, **kwargs: Any) -> None: ...
+def warning(msg: object, *args: object, **kwargs: Any) -> None: ...
+def error(msg: object, *args: object, **kwargs: Any) -> None: ...
+def exception(msg: object, *args: object, **kwargs: Any) -> None: ...
+def critical(msg: object, *args: object, **kwargs: Any) -> None: ...
+def log(level: int, msg: object, *args: object, **kwargs: Any) -> None: ...
+def disable(level: int = 50) -> None: ...
+`,
+  'math.pyi': `"""Bundled subset of the math module."""
+from typing import Iterable
+
+e: float
+pi: float
+tau: float
+inf: float
+nan: float
+
+def ceil(x: float) -> int: ...
+def floor(x: float) -> int: ...
+def trunc(x: float) -> int: ...
+def sqrt(x: float) -> float: ...
+def isqrt(n: int) -> int: ...
+def exp(x: float) -> float: ...
+def log(x: float, base: float = ...) -> float: ...
+def log2(x: float) -> float: ...
+def log10(x: float) -> float: ...
+def pow(x: float, y: float) -> float: ...
+def sin(x: float) -> float: ...
+def cos(x: float) -> float: ...
+def tan(x: float) -> float: ...
+def atan2(y: float, x: float) -> float: ...
+def hypot(*coordinates: float) -> float: ...
+def degrees(x: float) -> float: ...
+def radians(x: float) -> float: ...
+def fabs(x: float) -> float: ...
+def factorial(x: int) -> int: ...
+def gcd(*integers: int) -> int: ...
+def lcm(*integers: int) -> int: ...
+def comb(n: int, k: int) -> int: ...
+def perm(n: int, k: int | None = None) -> int: ...
+def fsum(seq: Iterable[float]) -> float: ...
+def prod(iterable: Iterable[float], *, start: float = 1) -> float: ...
+def isclose(a: float, b: float, *, rel_tol: float = 1e-09, abs_tol: float = 0.0) -> bool: ...
+def isfinite(x: float) -> bool: ...
+def isinf(x: float) -> bool: ...
+def isnan(x: float) -> bool: ...
+`,
+  'os/__init__.pyi': `"""Bundled subset of the os module."""
+import sys
+from typing import Any, AnyStr, Iterator, Mapping
+
+from . import path as path
+
+name: str
+sep: str
+altsep: str | None
+extsep: str
+pathsep: str
+linesep: str
+devnull: str
+curdir: str
+pardir: str
+
+environ: dict[str, str]
+
+class stat_result:
+    st_mode: int
+    st_ino: int
+    st_dev: int
+    st_nlink: int
+    st_uid: int
+    st_gid: int
+    st_size: int
+    st_atime: float
+    st_mtime: float
+    st_ctime: float
+
+class DirEntry:
+    name: str
+    path: str
+    def inode(self) -> int: ...
+    def is_dir(self, *, follow_symlinks: bool = True) -> bool: ...
+    def is_file(self, *, follow_symlinks: bool = True) -> bool: ...
+    def is_symlink(self) -> bool: ...
+    def stat(self, *, follow_symlinks: bool = True) -> stat_result: ...
+
+class PathLike:
+    def __fspath__(self) -> Any: ...
+
+def fspath(path: Any) -> Any: ...
+def getenv(key: str, default: str | None = None) -> str | None: ...
+def putenv(name: str, value: str) -> None: ...
+def unsetenv(name: str) -> None: ...
+def getcwd() -> str: ...
+def chdir(path: Any) -> None: ...
+def listdir(path: Any = None) -> list[str]: ...
+def scandir(path: Any = None) -> Iterator[DirEntry]: ...
+def mkdir(path: Any, mode: int = 0o777, *, dir_fd: int | None = None) -> None: ...
+def makedirs(name: Any, mode: int = 0o777, exist_ok: bool = False) -> None: ...
+def remove(path: Any, *, dir_fd: int | None = None) -> None: ...
+def unlink(path: Any, *, dir_fd: int | None = None) -> None: ...
+def rmdir(path: Any, *, dir_fd: int | None = None) -> None: ...
+def removedirs(name: Any) -> None: ...
+def rename(src: Any, dst: Any) -> None: ...
+def replace(src: Any, dst: Any) -> None: ...
+def stat(path: Any, *, dir_fd: int | None = None, follow_symlinks: bool = True) -> stat_result: ...
+def walk(top: Any, topdown: bool = True, onerror: Any = None, followlinks: bool = False) -> Iterator[tuple[str, list[str], list[str]]]: ...
+def getpid() -> int: ...
+def cpu_count() -> int | None: ...
+def urandom(size: int) -> bytes: ...
+def system(command: str) -> int: ...
+def kill(pid: int, signal: int) -> None: ...
+`,
+  'os/path.pyi': `"""Bundled subset of os.path (posixpath on POSIX systems)."""
+from typing import Any
+
+sep: str
+curdir: str
+pardir: str
+
+def abspath(path: Any) -> Any: ...
+def basename(p: Any) -> Any: ...
+def commonpath(paths: Any) -> Any: ...
+def commonprefix(m: Any) -> Any: ...
+def dirname(p: Any) -> Any: ...
+def exists(path: Any) -> bool: ...
+def lexists(path: Any) -> bool: ...
+def expanduser(path: Any) -> Any: ...
+def expandvars(path: Any) -> Any: ...
+def getatime(filename: Any) -> float: ...
+def getmtime(filename: Any) -> float: ...
+def getctime(filename: Any) -> float: ...
+def getsize(filename: Any) -> int: ...
+def isabs(s: Any) -> bool: ...
+def isdir(s: Any) -> bool: ...
+def isfile(path: Any) -> bool: ...
+def islink(path: Any) -> bool: ...
+def ismount(path: Any) -> bool: ...
+def join(a: Any, *paths: Any) -> Any: ...
+def normcase(s: Any) -> Any: ...
+def normpath(path: Any) -> Any: ...
+def realpath(filename: Any, *, strict: bool = False) -> Any: ...
+def relpath(path: Any, start: Any = None) -> Any: ...
+def samefile(f1: Any, f2: Any) -> bool: ...
+def split(p: Any) -> tuple[Any, Any]: ...
+def splitdrive(p: Any) -> tuple[Any, Any]: ...
+def splitext(p: Any) -> tuple[Any, Any]: ...
+`,
+  'pathlib.pyi': `"""Bundled subset of the pathlib module."""
+from typing import Any, Iterator
+
+class PurePath:
+    parts: tuple[str, ...]
+    drive: str
+    root: str
+    anchor: str
+    name: str
+    suffix: str
+    suffixes: list[str]
+    stem: str
+    parent: PurePath
+    parents: Any
+    def __init__(self, *args: Any) -> None: ...
+    def as_posix(self) -> str: ...
+    def as_uri(self) -> str: ...
+    def is_absolute(self) -> bool: ...
+    def is_relative_to(self, other: Any) -> bool: ...
+    def joinpath(self, *other: Any) -> PurePath: ...
+    def match(self, path_pattern: str) -> bool: ...
+    def relative_to(self, other: Any) -> PurePath: ...
+    def with_name(self, name: str) -> PurePath: ...
+    def with_stem(self, stem: str) -> PurePath: ...
+    def with_suffix(self, suffix: str) -> PurePath: ...
+
+class PurePosixPath(PurePath): ...
+class PureWindowsPath(PurePath): ...
+
+class Path(PurePath):
+    parent: Path
+    @classmethod
+    def cwd(cls) -> Path: ...
+    @classmethod
+    def home(cls) -> Path: ...
+    def absolute(self) -> Path: ...
+    def exists(self) -> bool: ...
+    def expanduser(self) -> Path: ...
+    def glob(self, pattern: str) -> Iterator[Path]: ...
+    def is_dir(self) -> bool: ...
+    def is_file(self) -> bool: ...
+    def iterdir(self) -> Iterator[Path]: ...
+    def joinpath(self, *other: Any) -> Path: ...
+    def mkdir(self, mode: int = 0o777, parents: bool = False, exist_ok: bool = False) -> None: ...
+    def open(self, mode: str = "r", buffering: int = -1, encoding: str | None = None, errors: str | None = None, newline: str | None = None) -> Any: ...
+    def read_bytes(self) -> bytes: ...
+    def read_text(self, encoding: str | None = None, errors: str | None = None) -> str: ...
+    def relative_to(self, other: Any) -> Path: ...
+    def rename(self, target: Any) -> Path: ...
+    def resolve(self, strict: bool = False) -> Path: ...
+    def rglob(self, pattern: str) -> Iterator[Path]: ...
+    def rmdir(self) -> None: ...
+    def stat(self) -> Any: ...
+    def touch(self, mode: int = 0o666, exist_ok: bool = True) -> None: ...
+    def unlink(self, missing_ok: bool = False) -> None: ...
+    def with_name(self, name: str) -> Path: ...
+    def with_suffix(self, suffix: str) -> Path: ...
+    def write_bytes(self, data: bytes) -> int: ...
+    def write_text(self, data: str, encoding: str | None = None, errors: str | None = None, newline: str | None = None) -> int: ...
+
+class PosixPath(Path, PurePosixPath): ...
+class WindowsPath(Path, PureWindowsPath): ...
+`,
+  're.pyi': `"""Bundled subset of the re module."""
+from typing import Any, Callable, Iterator
+
+A: int
+ASCII: int
+I: int
+IGNORECASE: int
+M: int
+MULTILINE: int
+S: int
+DOTALL: int
+X: int
+VERBOSE: int
+
+class error(Exception):
+    msg: str
+    pattern: str | None
+    pos: int | None
+
+class Match:
+    pos: int
+    endpos: int
+    lastindex: int | None
+    lastgroup: str | None
+    string: str
+    re: Pattern
+    def group(self, *groups: int | str) -> Any: ...
+    def groups(self, default: Any = None) -> tuple[Any, ...]: ...
+    def groupdict(self, default: Any = None) -> dict[str, Any]: ...
+    def start(self, group: int | str = 0) -> int: ...
+    def end(self, group: int | str = 0) -> int: ...
+    def span(self, group: int | str = 0) -> tuple[int, int]: ...
+
+class Pattern:
+    flags: int
+    groups: int
+    groupindex: dict[str, int]
+    pattern: str
+    def search(self, string: str, pos: int = 0, endpos: int = ...) -> Match | None: ...
+    def match(self, string: str, pos: int = 0, endpos: int = ...) -> Match | None: ...
+    def fullmatch(self, string: str, pos: int = 0, endpos: int = ...) -> Match | None: ...
+    def split(self, string: str, maxsplit: int = 0) -> list[Any]: ...
+    def findall(self, string: str, pos: int = 0, endpos: int = ...) -> list[Any]: ...
+    def finditer(self, string: str, pos: int = 0, endpos: int = ...) -> Iterator[Match]: ...
+    def sub(self, repl: str | Callable[[Match], str], string: str, count: int = 0) -> str: ...
+
+def compile(pattern: str | Pattern, flags: int = 0) -> Pattern: ...
+def search(pattern: str | Pattern, string: str, flags: int = 0) -> Match | None: ...
+def match(pattern: str | Pattern, string: str, flags: int = 0) -> Match | None: ...
+def fullmatch(pattern: str | Pattern, string: str, flags: int = 0) -> Match | None: ...
+def split(pattern: str | Pattern, string: str, maxsplit: int = 0, flags: int = 0) -> list[Any]: ...
+def findall(pattern: str | Pattern, string: str, flags: int = 0) -> list[Any]: ...
+def finditer(pattern: str | Pattern, string: str, flags: int = 0) -> Iterator[Match]: ...
+def sub(pattern: str | Pattern, repl: str | Callable[[Match], str], string: str, count: int = 0, flags: int = 0) -> str: ...
+def escape(pattern: str) -> str: ...
+`,
+  'sys.pyi': `"""Bundled subset of the sys module."""
+from typing import Any, NoReturn, TextIO
+
+argv: list[str]
+byteorder: str
+executable: str
+flags: Any
+maxsize: int
+modules: dict[str, Any]
+path: list[str]
+platform: str
+prefix: str
+stdin: TextIO
+stdout: TextIO
+stderr: TextIO
+version: str
+version_info: tuple[int, int, int, str, int]
+
+def exit(status: object = None) -> NoReturn: ...
+def exc_info() -> tuple[Any, Any, Any]: ...
+def getrecursionlimit() -> int: ...
+def setrecursionlimit(limit: int) -> None: ...
+def getsizeof(obj: object, default: int = ...) -> int: ...
+def intern(string: str) -> str: ...
+`,
+  'typing.pyi': `"""Bundled subset of the typing module."""
+
+class _SpecialForm:
+    def __getitem__(self, parameters: object) -> object: ...
+
+Any: _SpecialForm
+Union: _SpecialForm
+Optional: _SpecialForm
+Literal: _SpecialForm
+Final: _SpecialForm
+ClassVar: _SpecialForm
+Annotated: _SpecialForm
+Concatenate: _SpecialForm
+TypeAlias: _SpecialForm
+TypeGuard: _SpecialForm
+Self: _SpecialForm
+Never: _SpecialForm
+NoReturn: _SpecialForm
+Required: _SpecialForm
+NotRequired: _SpecialForm
+Unpack: _SpecialForm
+
+TYPE_CHECKING: bool
+
+class TypeVar:
+    __name__: str
+    def __init__(self, name: str, *constraints: object, bound: object = None, covariant: bool = False, contravariant: bool = False) -> None: ...
+
+class ParamSpec:
+    __name__: str
+    def __init__(self, name: str, *, bound: object = None) -> None: ...
+
+class TypeVarTuple:
+    __name__: str
+    def __init__(self, name: str) -> None: ...
+
+class Generic: ...
+class Protocol: ...
+
+class NamedTuple(tuple):
+    _fields: tuple[str, ...]
+    def _asdict(self) -> dict[str, object]: ...
+    def _replace(self, **kwargs: object) -> NamedTuple: ...
+
+class TypedDict(dict): ...
+
+class NewType:
+    def __init__(self, name: str, tp: object) -> None: ...
+
+class Iterable(Protocol): ...
+class Iterator(Iterable): ...
+class Reversible(Iterable): ...
+class Generator(Iterator): ...
+class Container(Protocol): ...
+class Collection(Iterable, Container): ...
+class Sequence(Collection, Reversible): ...
+class MutableSequence(Sequence): ...
+class AbstractSet(Collection): ...
+class MutableSet(AbstractSet): ...
+class Mapping(Collection): ...
+class MutableMapping(Mapping): ...
+class Awaitable(Protocol): ...
+class Coroutine(Awaitable): ...
+class AsyncIterable(Protocol): ...
+class AsyncIterator(AsyncIterable): ...
+class AsyncGenerator(AsyncIterator): ...
+class Callable(Protocol): ...
+class Hashable(Protocol): ...
+class Sized(Protocol): ...
+class ContextManager(Protocol): ...
+class AsyncContextManager(Protocol): ...
+class IO: ...
+class TextIO(IO): ...
+class BinaryIO(IO): ...
+
+AnyStr = TypeVar("AnyStr", str, bytes)
+
+List = list
+Dict = dict
+Set = set
+FrozenSet = frozenset
+Tuple = tuple
+Type = type
+DefaultDict: object
+OrderedDict: object
+Counter: object
+Deque: object
+
+def cast(typ: object, val: object) -> object: ...
+def overload(func: object) -> object: ...
+def final(f: object) -> object: ...
+def override(method: object) -> object: ...
+def runtime_checkable(cls: object) -> object: ...
+def get_type_hints(obj: object, globalns: dict[str, object] | None = None, localns: dict[str, object] | None = None, include_extras: bool = False) -> dict[str, object]: ...
+def get_origin(tp: object) -> object: ...
+def get_args(tp: object) -> tuple[object, ...]: ...
+def assert_never(arg: Never) -> Never: ...
+def reveal_type(obj: object) -> object: ...
+`
+};
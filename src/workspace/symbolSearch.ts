@@ -0,0 +1,57 @@
+/**
+ * Fuzzy matching for symbol search. The query's characters must appear in
+ * order in the name, case-insensitively; matches on word starts (`snake_case`
+ * segments, `camelCase` humps) and contiguous runs score higher, and exact and
+ * prefix matches outrank everything else — so `gu` finds `get_user` before
+ * `debug_util`.
+ */
+
+/** Score of `name` for `query`, higher is better; null when it does not match. */
+export function fuzzyScore(query: string, name: string): number | null {
+  if (query.length === 0) return 0;
+  const lowerQuery = query.toLowerCase();
+  const lowerName = name.toLowerCase();
+
+  let score = 0;
+  let queryIndex = 0;
+  let previous = -2;
+  for (let index = 0; index < name.length && queryIndex < query.length; index++) {
+    if (lowerName[index] !== lowerQuery[queryIndex]) continue;
+    score += 1;
+    if (index === previous + 1) score += 5;
+    if (isWordStart(name, index)) score += 8;
+    if (name[index] === query[queryIndex]) score += 1;
+    previous = index;
+    queryIndex++;
+  }
+  if (queryIndex < query.length) return null;
+
+  if (lowerName === lowerQuery) score += 100;
+  else if (lowerName.startsWith(lowerQuery)) score += 50;
+  return score;
+}
+
+function isWordStart(name: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = name[index - 1];
+  const current = name[index];
+  if (previous === '_' || previous === '.') return current !== '_';
+  return /[a-z0-9]/.test(previous) && /[A-Z]/.test(current);
+}
+
+/**
+ * `items` matching `query`, best first: by score, then shorter names, then
+ * alphabetically. `key` reads the name to match.
+ */
+export function rankByName<T>(items: T[], query: string, key: (item: T) => string): T[] {
+  const scored: Array<{ item: T; name: string; score: number }> = [];
+  for (const item of items) {
+    const name = key(item);
+    const score = fuzzyScore(query, name);
+    if (score !== null) scored.push({ item, name, score });
+  }
+  scored.sort(
+    (a, b) => b.score - a.score || a.name.length - b.name.length || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+  );
+  return scored.map(entry => entry.item);
+}